@@ -0,0 +1,219 @@
+import { createSign } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { GitHubAuthenticationError } from "./errors.js";
+import { GitHubAppCredentials, GitHubProfile } from "./profiles.js";
+import { githubRequest } from "./utils.js";
+
+// Installation tokens are valid for an hour; renew them well before they lapse
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const InstallationSchema = z.object({
+  id: z.number(),
+});
+
+const InstallationTokenSchema = z.object({
+  token: z.string(),
+  expires_at: z.string(),
+});
+
+type InstallationToken = {
+  token: string;
+  expiresAt: number;
+};
+
+// Caches are keyed by profile name so each host keeps its own installations
+const installationTokens = new Map<string, Promise<InstallationToken>>();
+const installationIds = new Map<string, Promise<number>>();
+const onlyInstallations = new Map<string, Promise<OnlyInstallation>>();
+const privateKeys = new Map<string, string>();
+
+function getPrivateKey(profile: GitHubProfile, app: GitHubAppCredentials): string {
+  let privateKey = privateKeys.get(profile.name);
+  if (privateKey) {
+    return privateKey;
+  }
+  if (app.privateKey) {
+    privateKey = app.privateKey.replace(/\\n/g, "\n");
+  } else if (app.privateKeyPath) {
+    privateKey = readFileSync(app.privateKeyPath, "utf8");
+  } else {
+    throw new GitHubAuthenticationError(
+      `GitHub profile '${profile.name}' has an App ID but no private key or private key path`
+    );
+  }
+  privateKeys.set(profile.name, privateKey);
+  return privateKey;
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Signs a short-lived RS256 JWT identifying the GitHub App itself. It is
+ * only accepted by the `/app` endpoints, chiefly to mint installation tokens.
+ */
+export function createAppJwt(profile: GitHubProfile, app: GitHubAppCredentials): string {
+  const now = Math.floor(Date.now() / 1000);
+  // Backdate iat to tolerate clock drift; GitHub rejects expirations over 10 minutes
+  const unsigned = `${base64UrlJson({ alg: "RS256", typ: "JWT" })}.${base64UrlJson({
+    iat: now - 60,
+    exp: now + 9 * 60,
+    iss: app.appId,
+  })}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(getPrivateKey(profile, app), "base64url");
+  return `${unsigned}.${signature}`;
+}
+
+function appRequest(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials,
+  url: string,
+  method = "GET"
+): Promise<unknown> {
+  return githubRequest(`${profile.apiUrl}${url}`, {
+    method,
+    headers: { Authorization: `Bearer ${createAppJwt(profile, app)}` },
+  });
+}
+
+function getRequestTarget(url: string): { owner?: string; repo?: string } {
+  const { pathname } = new URL(url, "https://placeholder.invalid");
+  const repoMatch = pathname.match(/\/repos\/([^/]+)\/([^/]+)/);
+  if (repoMatch) {
+    return { owner: repoMatch[1], repo: repoMatch[2] };
+  }
+  const ownerMatch = pathname.match(/\/(?:users|orgs)\/([^/]+)/);
+  return ownerMatch ? { owner: ownerMatch[1] } : {};
+}
+
+async function findInstallationId(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials,
+  owner: string,
+  repo?: string
+): Promise<number> {
+  const response = await appRequest(
+    profile,
+    app,
+    repo ? `/repos/${owner}/${repo}/installation` : `/users/${owner}/installation`
+  );
+  return InstallationSchema.parse(response).id;
+}
+
+type OnlyInstallation = {
+  id?: number;
+  count: number;
+};
+
+async function findOnlyInstallation(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials
+): Promise<OnlyInstallation> {
+  const response = await appRequest(profile, app, "/app/installations");
+  const installations = z.array(InstallationSchema).parse(response);
+  return {
+    id: installations.length === 1 ? installations[0].id : undefined,
+    count: installations.length,
+  };
+}
+
+function cached<K, V>(cache: Map<K, Promise<V>>, key: K, load: () => Promise<V>): Promise<V> {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
+  }
+  return pending;
+}
+
+/**
+ * Picks the installation for a request: the profile's installation ID when
+ * set, else the installation on the owner in the URL, else the app's only
+ * one. Returns undefined with the installation count when the URL names no
+ * owner and the app has several installations to choose from.
+ */
+async function getInstallationId(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials,
+  url: string
+): Promise<number | OnlyInstallation> {
+  if (app.installationId !== undefined) {
+    return app.installationId;
+  }
+  const { owner, repo } = getRequestTarget(url);
+  if (owner) {
+    return cached(installationIds, `${profile.name}:${owner.toLowerCase()}`, () =>
+      findInstallationId(profile, app, owner, repo)
+    );
+  }
+  const only = await cached(onlyInstallations, profile.name, () => findOnlyInstallation(profile, app));
+  return only.id ?? only;
+}
+
+async function requestInstallationToken(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials,
+  installationId: number
+): Promise<InstallationToken> {
+  const response = await appRequest(
+    profile,
+    app,
+    `/app/installations/${installationId}/access_tokens`,
+    "POST"
+  );
+  const { token, expires_at } = InstallationTokenSchema.parse(response);
+  return { token, expiresAt: Date.parse(expires_at) };
+}
+
+async function getInstallationToken(
+  profile: GitHubProfile,
+  app: GitHubAppCredentials,
+  installationId: number
+): Promise<string> {
+  const key = `${profile.name}:${installationId}`;
+  const load = () => requestInstallationToken(profile, app, installationId);
+
+  const pending = cached(installationTokens, key, load);
+  const current = await pending;
+  if (current.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return current.token;
+  }
+
+  if (installationTokens.get(key) === pending) {
+    installationTokens.delete(key);
+  }
+  const renewed = await cached(installationTokens, key, load);
+  return renewed.token;
+}
+
+/**
+ * Returns the Authorization header for a request made under a profile: an
+ * installation token when it has GitHub App credentials, otherwise its token.
+ * With `optional`, a request whose installation cannot be chosen is sent
+ * without credentials instead of failing.
+ */
+export async function getAuthorizationHeader(
+  profile: GitHubProfile,
+  url: string,
+  optional = false
+): Promise<string | undefined> {
+  if (profile.app) {
+    const installation = await getInstallationId(profile, profile.app, url);
+    if (typeof installation !== "number") {
+      if (optional) {
+        return undefined;
+      }
+      throw new GitHubAuthenticationError(
+        `This request names no repository owner, so the GitHub App installation to use is ambiguous (the app has ${installation.count} installations); name an owner (for searches, a repo:, org: or user: qualifier) or configure an installation ID for profile '${profile.name}'`
+      );
+    }
+    return `Bearer ${await getInstallationToken(profile, profile.app, installation)}`;
+  }
+  if (profile.token) {
+    return `Bearer ${profile.token}`;
+  }
+  return undefined;
+}
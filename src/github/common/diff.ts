@@ -0,0 +1,256 @@
+import { DiffLimits } from "./types.js";
+
+export type DiffSide = "LEFT" | "RIGHT";
+
+export type DiffLine = {
+  type: "context" | "addition" | "deletion";
+  content: string;
+  old_line?: number;
+  new_line?: number;
+};
+
+export type DiffHunk = {
+  header: string;
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  lines: DiffLine[];
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the hunks of a unified diff patch, such as the `patch` field of a
+ * pull request file, numbering each line on the side(s) it belongs to.
+ */
+export function parseHunks(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split("\n")) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = {
+        header: line,
+        old_start: Number(header[1]),
+        old_lines: header[2] === undefined ? 1 : Number(header[2]),
+        new_start: Number(header[3]),
+        new_lines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.old_start;
+      newLine = current.new_start;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      current.lines.push({ type: "addition", content: line.slice(1), new_line: newLine++ });
+    } else if (line.startsWith("-")) {
+      current.lines.push({ type: "deletion", content: line.slice(1), old_line: oldLine++ });
+    } else if (line.startsWith(" ")) {
+      current.lines.push({
+        type: "context",
+        content: line.slice(1),
+        old_line: oldLine++,
+        new_line: newLine++,
+      });
+    }
+    // "\ No newline at end of file" markers and trailing blank lines carry no line numbers
+  }
+
+  return hunks;
+}
+
+/**
+ * Finds the hunk containing a file line on one side of the diff: RIGHT is
+ * the new version of the file, LEFT the old one.
+ */
+export function findHunk(hunks: DiffHunk[], side: DiffSide, line: number): DiffHunk | undefined {
+  return hunks.find((hunk) =>
+    hunk.lines.some((diffLine) =>
+      (side === "RIGHT" ? diffLine.new_line : diffLine.old_line) === line
+    )
+  );
+}
+
+export function describeHunkRanges(hunks: DiffHunk[], side: DiffSide): string {
+  return hunks
+    .map((hunk) => {
+      const start = side === "RIGHT" ? hunk.new_start : hunk.old_start;
+      const count = side === "RIGHT" ? hunk.new_lines : hunk.old_lines;
+      return count > 0 ? `${start}-${start + count - 1}` : undefined;
+    })
+    .filter((range): range is string => range !== undefined)
+    .join(", ");
+}
+
+export const DEFAULT_MAX_PATCH_LINES = 200;
+export const DEFAULT_MAX_DIFF_FILES = 100;
+export const DEFAULT_MAX_DIFF_BYTES = 100_000;
+
+export type TruncatedPatch = {
+  patch: string;
+  truncated: boolean;
+  total_lines: number;
+};
+
+export function truncatePatch(patch: string, maxLines: number): TruncatedPatch {
+  const lines = patch.split("\n");
+  if (lines.length <= maxLines) {
+    return { patch, truncated: false, total_lines: lines.length };
+  }
+  return {
+    patch: `${lines.slice(0, maxLines).join("\n")}\n... truncated ${lines.length - maxLines} of ${lines.length} lines`,
+    truncated: true,
+    total_lines: lines.length,
+  };
+}
+
+/**
+ * Applies diff limits to the per-file entries GitHub returns for commits,
+ * comparisons and pull requests: at most `max_files` files, each patch cut
+ * to `max_patch_lines`, or no patches at all when `include_patches` is false.
+ */
+export function limitFilePatches<T extends { patch?: string }>(
+  files: T[],
+  limits: DiffLimits
+): { files: (Omit<T, "patch"> & { patch?: string; patch_truncated?: boolean })[]; files_truncated: boolean } {
+  const maxFiles = limits.max_files ?? DEFAULT_MAX_DIFF_FILES;
+  const maxLines = limits.max_patch_lines ?? DEFAULT_MAX_PATCH_LINES;
+
+  return {
+    files: files.slice(0, maxFiles).map(({ patch, ...file }) => {
+      if (patch === undefined || limits.include_patches === false) {
+        return file;
+      }
+      const truncated = truncatePatch(patch, maxLines);
+      return { ...file, patch: truncated.patch, patch_truncated: truncated.truncated };
+    }),
+    files_truncated: files.length > maxFiles,
+  };
+}
+
+export type FileDiff = {
+  path: string;
+  old_path: string;
+  // The file's whole section of the diff, from its "diff --git" line on
+  text: string;
+};
+
+function stripDiffPrefix(path: string): string | undefined {
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Splits a unified diff in git's format, as returned for the diff media
+ * type, into one section per file.
+ */
+export function splitDiff(diff: string): FileDiff[] {
+  const sections: string[][] = [];
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ") || sections.length === 0) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(line);
+  }
+
+  return sections
+    .filter((lines) => lines[0]?.startsWith("diff --git "))
+    .map((lines) => {
+      // Names with spaces make the "diff --git" line ambiguous, so prefer the file headers
+      const header = lines[0].match(/^diff --git a\/(.*) b\/(.*)$/);
+      let path = header?.[2] ?? "";
+      let oldPath = header?.[1] ?? path;
+      for (const line of lines) {
+        if (line.startsWith("@@")) {
+          break;
+        }
+        if (line.startsWith("rename from ")) {
+          oldPath = line.slice("rename from ".length);
+        } else if (line.startsWith("rename to ")) {
+          path = line.slice("rename to ".length);
+        } else if (line.startsWith("--- ")) {
+          oldPath = stripDiffPrefix(line.slice(4)) ?? oldPath;
+        } else if (line.startsWith("+++ ")) {
+          path = stripDiffPrefix(line.slice(4)) ?? path;
+        }
+      }
+      // Drop the empty string left by the diff's trailing newline
+      const text = lines[lines.length - 1] === "" ? lines.slice(0, -1).join("\n") : lines.join("\n");
+      return { path, old_path: oldPath, text };
+    });
+}
+
+export type RawHunk = Omit<DiffHunk, "lines"> & {
+  lines: string[];
+};
+
+/**
+ * Splits one file's section of a diff into the lines before its first hunk
+ * (the "diff --git", index and ---/+++ headers) and its hunks, keeping each
+ * hunk's lines as raw text.
+ */
+export function splitHunks(fileDiff: string): { preamble: string[]; hunks: RawHunk[] } {
+  const preamble: string[] = [];
+  const hunks: RawHunk[] = [];
+  for (const line of fileDiff.split("\n")) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunks.push({
+        header: line,
+        old_start: Number(header[1]),
+        old_lines: header[2] === undefined ? 1 : Number(header[2]),
+        new_start: Number(header[3]),
+        new_lines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      });
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  return { preamble, hunks };
+}
+
+/**
+ * Applies diff limits to a raw diff, then cuts the result at a line
+ * boundary once it exceeds `maxBytes`.
+ */
+export function truncateDiff(
+  diff: string,
+  limits: DiffLimits,
+  maxBytes: number = DEFAULT_MAX_DIFF_BYTES
+): { diff: string; truncated: boolean } {
+  const files = splitDiff(diff);
+  const maxFiles = limits.max_files ?? DEFAULT_MAX_DIFF_FILES;
+  const maxLines = limits.max_patch_lines ?? DEFAULT_MAX_PATCH_LINES;
+
+  let truncated = files.length > maxFiles;
+  let result = "";
+  let bytes = 0;
+  for (const file of files.slice(0, maxFiles)) {
+    const patch = truncatePatch(file.text, maxLines);
+    truncated ||= patch.truncated;
+    const section = `${patch.patch}\n`;
+    const sectionBytes = Buffer.byteLength(section);
+    if (bytes + sectionBytes > maxBytes) {
+      const partial = Buffer.from(section).subarray(0, maxBytes - bytes).toString("utf8");
+      result += partial.slice(0, partial.lastIndexOf("\n") + 1);
+      return { diff: result, truncated: true };
+    }
+    result += section;
+    bytes += sectionBytes;
+  }
+  return { diff: result, truncated };
+}
@@ -37,12 +37,16 @@ export class GitHubPermissionError extends GitHubError {
   }
 }
 
+export type GitHubRateLimitKind = "primary" | "secondary";
+
 export class GitHubRateLimitError extends GitHubError {
   constructor(
     message = "Rate limit exceeded",
-    public readonly resetAt: Date
+    public readonly resetAt: Date,
+    public readonly kind: GitHubRateLimitKind = "primary",
+    status = 429
   ) {
-    super(message, 429, { message, reset_at: resetAt.toISOString() });
+    super(message, status, { message, reset_at: resetAt.toISOString(), kind });
     this.name = "GitHubRateLimitError";
   }
 }
@@ -58,7 +62,60 @@ export function isGitHubError(error: unknown): error is GitHubError {
   return error instanceof GitHubError;
 }
 
-export function createGitHubError(status: number, response: any): GitHubError {
+// GitHub asks clients to wait at least a minute after a secondary limit without Retry-After
+const SECONDARY_RATE_LIMIT_FALLBACK_MS = 60000;
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Date.now() + seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+function createRateLimitError(
+  status: number,
+  response: any,
+  headers?: Headers
+): GitHubRateLimitError | undefined {
+  if (status !== 403 && status !== 429) {
+    return undefined;
+  }
+
+  const message: string | undefined = response?.message;
+  const retryAt = parseRetryAfter(headers?.get("retry-after") ?? null);
+  if (retryAt !== undefined || /secondary rate limit/i.test(message ?? "")) {
+    return new GitHubRateLimitError(
+      message || "Secondary rate limit exceeded",
+      new Date(retryAt ?? Date.now() + SECONDARY_RATE_LIMIT_FALLBACK_MS),
+      "secondary",
+      status
+    );
+  }
+
+  const reset = headers?.get("x-ratelimit-reset");
+  if (headers?.get("x-ratelimit-remaining") === "0" || status === 429) {
+    return new GitHubRateLimitError(
+      message || "Rate limit exceeded",
+      new Date(reset ? Number(reset) * 1000 : Date.now() + 60000),
+      "primary",
+      status
+    );
+  }
+
+  return undefined;
+}
+
+export function createGitHubError(status: number, response: any, headers?: Headers): GitHubError {
+  const rateLimitError = createRateLimitError(status, response, headers);
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
   switch (status) {
     case 401:
       return new GitHubAuthenticationError(response?.message);
@@ -74,11 +131,6 @@ export function createGitHubError(status: number, response: any): GitHubError {
         status,
         response
       );
-    case 429:
-      return new GitHubRateLimitError(
-        response?.message,
-        new Date(response?.reset_at || Date.now() + 60000)
-      );
     default:
       return new GitHubError(
         response?.message || "GitHub API error",
@@ -86,4 +138,42 @@ export function createGitHubError(status: number, response: any): GitHubError {
         response
       );
   }
-}
\ No newline at end of file
+}
+
+export type GitHubGraphqlErrorDetail = {
+  type?: string;
+  message: string;
+  path?: (string | number)[];
+};
+
+/**
+ * Maps the `errors` array of a GraphQL response onto the REST error classes
+ * so callers can handle both APIs the same way.
+ */
+export function createGitHubGraphqlError(
+  errors: GitHubGraphqlErrorDetail[],
+  headers?: Headers
+): GitHubError {
+  const message = errors.map((error) => error.message).join("; ");
+  switch (errors[0].type) {
+    case "NOT_FOUND":
+      return new GitHubResourceNotFoundError(message);
+    case "FORBIDDEN":
+    case "INSUFFICIENT_SCOPES":
+      return new GitHubPermissionError(message);
+    case "RATE_LIMITED": {
+      const reset = headers?.get("x-ratelimit-reset");
+      return new GitHubRateLimitError(
+        message,
+        new Date(reset ? Number(reset) * 1000 : Date.now() + 60000),
+        "primary",
+        403
+      );
+    }
+    case "UNPROCESSABLE":
+    case "ARGUMENT_ERROR":
+      return new GitHubValidationError(message, 422, { errors });
+    default:
+      return new GitHubError(message, 500, { errors });
+  }
+}
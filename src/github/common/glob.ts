@@ -0,0 +1,44 @@
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "/" && i === pattern.length - 3 && pattern.endsWith("/**")) {
+      source += "(?:/.*)?";
+      break;
+    }
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" also matches no directories at all
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Matches a slash-separated path against a glob supporting `*`, `?` and
+ * `**`. A pattern without a slash matches the file name in any directory,
+ * so `*.xml` finds XML files at every depth. A trailing `/**` matches the
+ * directory as well as everything under it.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const target = pattern.includes("/") ? path : path.slice(path.lastIndexOf("/") + 1);
+  return globToRegExp(pattern).test(target);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(path, pattern));
+}
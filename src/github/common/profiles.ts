@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+export const DEFAULT_PROFILE_NAME = "default";
+
+// Profile configuration schemas
+const ProfileConfigSchema = z.object({
+  host: z.string().optional(),
+  api_url: z.string().optional(),
+  token: z.string().optional(),
+  token_env: z.string().optional(),
+  app_id: z.union([z.string(), z.number()]).optional(),
+  private_key: z.string().optional(),
+  private_key_path: z.string().optional(),
+  installation_id: z.number().optional(),
+  owners: z.array(z.string()).optional(),
+});
+
+const ProfilesConfigSchema = z.object({
+  default_profile: z.string().optional(),
+  profiles: z.record(ProfileConfigSchema),
+});
+
+export const ProfileSelectionSchema = z.object({
+  profile: z.string().optional().describe("Name of the configured GitHub profile to use"),
+  host: z.string().optional().describe("GitHub host to use (e.g. 'github.com' or a GitHub Enterprise Server hostname)"),
+});
+
+export type GitHubAppCredentials = {
+  appId: string;
+  privateKey?: string;
+  privateKeyPath?: string;
+  installationId?: number;
+};
+
+export type GitHubProfile = {
+  name: string;
+  apiUrl: string;
+  token?: string;
+  app?: GitHubAppCredentials;
+  owners: string[];
+};
+
+export type ProfileSelection = z.infer<typeof ProfileSelectionSchema>;
+
+/**
+ * Normalizes a GitHub host or API URL into the REST API root.
+ *
+ * `github.com` maps to `https://api.github.com`, `*.ghe.com` to its `api.`
+ * subdomain, and any other bare host is treated as GitHub Enterprise Server,
+ * whose REST API lives under `/api/v3`.
+ */
+export function normalizeGitHubApiUrl(hostOrUrl: string): string {
+  let value = hostOrUrl.trim();
+  if (!/^https?:\/\//i.test(value)) {
+    value = `https://${value}`;
+  }
+
+  const url = new URL(value);
+  const hostname = url.hostname.toLowerCase();
+  const hasPath = url.pathname !== "" && url.pathname !== "/";
+
+  if (hostname === "github.com" || hostname === "api.github.com") {
+    return DEFAULT_GITHUB_API_URL;
+  }
+  if (hostname.endsWith(".ghe.com")) {
+    if (!hostname.startsWith("api.")) {
+      url.hostname = `api.${hostname}`;
+    }
+    url.pathname = "/";
+  } else if (!hasPath) {
+    url.pathname = "/api/v3";
+  }
+
+  return url.toString().replace(/\/+$/, "");
+}
+
+function createEnvironmentProfile(): GitHubProfile {
+  const configured = process.env.GITHUB_API_URL || process.env.GITHUB_HOST;
+  return {
+    name: DEFAULT_PROFILE_NAME,
+    apiUrl: configured ? normalizeGitHubApiUrl(configured) : DEFAULT_GITHUB_API_URL,
+    token: process.env.GITHUB_PERSONAL_ACCESS_TOKEN,
+    app: process.env.GITHUB_APP_ID
+      ? {
+          appId: process.env.GITHUB_APP_ID,
+          privateKey: process.env.GITHUB_APP_PRIVATE_KEY,
+          privateKeyPath: process.env.GITHUB_APP_PRIVATE_KEY_PATH,
+          installationId: process.env.GITHUB_APP_INSTALLATION_ID
+            ? Number(process.env.GITHUB_APP_INSTALLATION_ID)
+            : undefined,
+        }
+      : undefined,
+    owners: [],
+  };
+}
+
+function createConfiguredProfile(
+  name: string,
+  config: z.infer<typeof ProfileConfigSchema>
+): GitHubProfile {
+  const location = config.api_url || config.host;
+  if (config.token_env && !process.env[config.token_env]) {
+    console.error(`Warning: profile '${name}' reads its token from ${config.token_env}, which is not set`);
+  }
+  return {
+    name,
+    apiUrl: location ? normalizeGitHubApiUrl(location) : DEFAULT_GITHUB_API_URL,
+    token: config.token ?? (config.token_env ? process.env[config.token_env] : undefined),
+    app: config.app_id !== undefined
+      ? {
+          appId: String(config.app_id),
+          privateKey: config.private_key,
+          privateKeyPath: config.private_key_path,
+          installationId: config.installation_id,
+        }
+      : undefined,
+    owners: (config.owners ?? []).map((owner) => owner.toLowerCase()),
+  };
+}
+
+function readProfilesConfig(): z.infer<typeof ProfilesConfigSchema> | undefined {
+  let raw: string | undefined;
+  let source: string | undefined;
+  if (process.env.GITHUB_PROFILES_FILE) {
+    source = process.env.GITHUB_PROFILES_FILE;
+    raw = readFileSync(source, "utf8");
+  } else if (process.env.GITHUB_PROFILES) {
+    source = "GITHUB_PROFILES";
+    raw = process.env.GITHUB_PROFILES;
+  }
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  try {
+    return ProfilesConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid GitHub profile configuration in ${source}: ${reason}`);
+  }
+}
+
+let profiles: Map<string, GitHubProfile> | undefined;
+let defaultProfileName = DEFAULT_PROFILE_NAME;
+
+/**
+ * Returns every configured profile. The environment variables always define
+ * the `default` profile unless the profile configuration overrides it.
+ */
+export function getProfiles(): Map<string, GitHubProfile> {
+  if (profiles) {
+    return profiles;
+  }
+
+  const loaded = new Map<string, GitHubProfile>();
+  loaded.set(DEFAULT_PROFILE_NAME, createEnvironmentProfile());
+
+  const config = readProfilesConfig();
+  if (config) {
+    for (const [name, profileConfig] of Object.entries(config.profiles)) {
+      loaded.set(name, createConfiguredProfile(name, profileConfig));
+    }
+    if (config.default_profile) {
+      if (!loaded.has(config.default_profile)) {
+        throw new Error(`Default GitHub profile '${config.default_profile}' is not defined`);
+      }
+      defaultProfileName = config.default_profile;
+    }
+  }
+
+  profiles = loaded;
+  return profiles;
+}
+
+export function getDefaultProfile(): GitHubProfile {
+  return getProfiles().get(defaultProfileName)!;
+}
+
+export function hasMultipleProfiles(): boolean {
+  return getProfiles().size > 1;
+}
+
+/**
+ * Chooses the profile for a tool call: an explicit `profile` name, then a
+ * profile whose host matches `host`, then one listing the owner, then the
+ * default profile.
+ */
+export function selectProfile(selection: ProfileSelection & { owner?: string }): GitHubProfile {
+  const available = getProfiles();
+
+  if (selection.profile) {
+    const profile = available.get(selection.profile);
+    if (!profile) {
+      throw new Error(
+        `Unknown GitHub profile '${selection.profile}' (configured: ${[...available.keys()].join(", ")})`
+      );
+    }
+    return profile;
+  }
+
+  const candidates = [...available.values()];
+  if (selection.host) {
+    const apiUrl = normalizeGitHubApiUrl(selection.host);
+    const matching = candidates.filter((profile) => profile.apiUrl === apiUrl);
+    if (matching.length === 0) {
+      throw new Error(`No GitHub profile is configured for host '${selection.host}'`);
+    }
+    return matching.find((profile) => isOwnedBy(profile, selection.owner)) ?? matching[0];
+  }
+
+  return candidates.find((profile) => isOwnedBy(profile, selection.owner)) ?? getDefaultProfile();
+}
+
+function isOwnedBy(profile: GitHubProfile, owner?: string): boolean {
+  return owner !== undefined && profile.owners.includes(owner.toLowerCase());
+}
+
+const activeProfile = new AsyncLocalStorage<GitHubProfile>();
+
+export function getActiveProfile(): GitHubProfile {
+  return activeProfile.getStore() ?? getDefaultProfile();
+}
+
+export function runWithProfile<T>(profile: GitHubProfile, fn: () => Promise<T>): Promise<T> {
+  return activeProfile.run(profile, fn);
+}
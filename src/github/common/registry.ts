@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+export const TOOLSETS = [
+  "repos",
+  "files",
+  "branches",
+  "commits",
+  "issues",
+  "pulls",
+  "search",
+  "actions",
+  "releases",
+] as const;
+
+export type Toolset = typeof TOOLSETS[number];
+
+export type ToolContext = {
+  // Aborted when the client cancels the tool call
+  signal: AbortSignal;
+  // Sends a progress notification if the client asked for them; otherwise a no-op
+  reportProgress: (progress: number, total?: number) => Promise<void>;
+};
+
+export type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
+/**
+ * Returned by handlers whose result is not plain JSON, such as an image;
+ * the content blocks are sent to the client as they are.
+ */
+export class ToolContentResult {
+  constructor(readonly content: ToolContent[]) {}
+}
+
+export type ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> = {
+  name: string;
+  description: string;
+  toolset: Toolset;
+  schema: S;
+  // Whether the tool writes to GitHub; mutating tools are disabled in read-only mode
+  mutates: boolean;
+  // OAuth scopes a classic personal access token needs for this tool
+  scopes: string[];
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<unknown>;
+};
+
+export function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+export function isReadOnlyMode(): boolean {
+  const value = process.env.GITHUB_READ_ONLY?.toLowerCase();
+  return value === "1" || value === "true";
+}
+
+export function getEnabledToolsets(): Set<Toolset> {
+  const configured = process.env.GITHUB_TOOLSETS?.trim();
+  if (!configured || configured === "all") {
+    return new Set(TOOLSETS);
+  }
+
+  const requested = configured.split(",").map((name) => name.trim()).filter(Boolean);
+  const unknown = requested.filter((name) => !(TOOLSETS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown toolset(s) in GITHUB_TOOLSETS: ${unknown.join(", ")} (available: ${TOOLSETS.join(", ")})`
+    );
+  }
+  return new Set(requested as Toolset[]);
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool definition: ${tool.name}`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Returns the tools exposed under the current GITHUB_TOOLSETS and
+   * GITHUB_READ_ONLY settings.
+   */
+  listEnabled(): ToolDefinition[] {
+    const toolsets = getEnabledToolsets();
+    const readOnly = isReadOnlyMode();
+    return [...this.tools.values()].filter(
+      (tool) => toolsets.has(tool.toolset) && !(readOnly && tool.mutates)
+    );
+  }
+
+  find(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Looks up a tool for execution, refusing tools that exist but are
+   * disabled by configuration.
+   */
+  resolve(name: string): ToolDefinition {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    if (!getEnabledToolsets().has(tool.toolset)) {
+      throw new Error(`Tool ${name} belongs to the '${tool.toolset}' toolset, which is not enabled`);
+    }
+    if (isReadOnlyMode() && tool.mutates) {
+      throw new Error(`Tool ${name} modifies GitHub data and is disabled in read-only mode`);
+    }
+    return tool;
+  }
+}
@@ -37,6 +37,40 @@ export const GitHubRepositorySchema = z.object({
   default_branch: z.string(),
 });
 
+export const GitHubRepositoryPermissionsSchema = z.object({
+  admin: z.boolean(),
+  maintain: z.boolean().optional(),
+  push: z.boolean(),
+  triage: z.boolean().optional(),
+  pull: z.boolean(),
+});
+
+export const GitHubRepositoryDetailsSchema = GitHubRepositorySchema.extend({
+  visibility: z.string().optional(),
+  archived: z.boolean(),
+  disabled: z.boolean().optional(),
+  is_template: z.boolean().optional(),
+  topics: z.array(z.string()).optional(),
+  homepage: z.string().nullable().optional(),
+  language: z.string().nullable(),
+  size: z.number(),
+  stargazers_count: z.number(),
+  forks_count: z.number(),
+  open_issues_count: z.number(),
+  has_issues: z.boolean(),
+  has_projects: z.boolean().optional(),
+  has_wiki: z.boolean().optional(),
+  has_discussions: z.boolean().optional(),
+  permissions: GitHubRepositoryPermissionsSchema.optional(),
+  // Merge settings are only returned to users with push access
+  allow_merge_commit: z.boolean().optional(),
+  allow_squash_merge: z.boolean().optional(),
+  allow_rebase_merge: z.boolean().optional(),
+  allow_auto_merge: z.boolean().optional(),
+  allow_update_branch: z.boolean().optional(),
+  delete_branch_on_merge: z.boolean().optional(),
+});
+
 export const GithubFileContentLinks = z.object({
   self: z.string(),
   git: z.string().nullable(),
@@ -75,13 +109,23 @@ export const GitHubContentSchema = z.union([
   z.array(GitHubDirectoryContentSchema),
 ]);
 
+// The application/vnd.github.object media type wraps a directory listing in
+// an object, and still answers for files too large to inline
+export const GitHubContentObjectSchema = z.union([
+  GitHubDirectoryContentSchema.extend({
+    type: z.literal("dir"),
+    entries: z.array(GitHubDirectoryContentSchema),
+  }),
+  GitHubFileContentSchema,
+]);
+
 export const GitHubTreeEntrySchema = z.object({
   path: z.string(),
   mode: z.enum(["100644", "100755", "040000", "160000", "120000"]),
   type: z.enum(["blob", "tree", "commit"]),
   size: z.number().optional(),
   sha: z.string(),
-  url: z.string(),
+  url: z.string().optional(),
 });
 
 export const GitHubTreeSchema = z.object({
@@ -140,6 +184,20 @@ export const GitHubReferenceSchema = z.object({
   }),
 });
 
+export const GitHubTagSchema = z.object({
+  node_id: z.string(),
+  tag: z.string(),
+  sha: z.string(),
+  url: z.string(),
+  message: z.string(),
+  tagger: GitHubAuthorSchema,
+  object: z.object({
+    sha: z.string(),
+    type: z.string(),
+    url: z.string(),
+  }),
+});
+
 // User and assignee schemas
 export const GitHubIssueAssigneeSchema = z.object({
   login: z.string(),
@@ -240,20 +298,39 @@ export const GitHubPullRequestSchema = z.object({
   base: GitHubPullRequestRefSchema,
 });
 
+// Pagination schemas
+export const PaginationOptionsSchema = z.object({
+  max_items: z.number().int().positive().optional().describe("Maximum number of items to return, following as many pages as needed"),
+  all_pages: z.boolean().optional().describe("Follow pagination until every item is fetched (capped at 1000 unless max_items is set)"),
+});
+
+// Diff schemas
+export const DiffLimitsSchema = z.object({
+  include_patches: z.boolean().optional().describe("Include each file's patch (default: true)"),
+  max_patch_lines: z.number().int().positive().optional().describe("Truncate each file's patch after this many lines (default: 200)"),
+  max_files: z.number().int().positive().optional().describe("Return at most this many files (default: 100)"),
+});
+
 // Export types
 export type GitHubAuthor = z.infer<typeof GitHubAuthorSchema>;
 export type GitHubRepository = z.infer<typeof GitHubRepositorySchema>;
+export type GitHubRepositoryDetails = z.infer<typeof GitHubRepositoryDetailsSchema>;
 export type GitHubFileContent = z.infer<typeof GitHubFileContentSchema>;
 export type GitHubDirectoryContent = z.infer<typeof GitHubDirectoryContentSchema>;
 export type GitHubContent = z.infer<typeof GitHubContentSchema>;
+export type GitHubContentObject = z.infer<typeof GitHubContentObjectSchema>;
+export type GitHubTreeEntry = z.infer<typeof GitHubTreeEntrySchema>;
 export type GitHubTree = z.infer<typeof GitHubTreeSchema>;
 export type GitHubCommit = z.infer<typeof GitHubCommitSchema>;
 export type GitHubListCommits = z.infer<typeof GitHubListCommitsSchema>;
 export type GitHubReference = z.infer<typeof GitHubReferenceSchema>;
+export type GitHubTag = z.infer<typeof GitHubTagSchema>;
 export type GitHubIssueAssignee = z.infer<typeof GitHubIssueAssigneeSchema>;
 export type GitHubLabel = z.infer<typeof GitHubLabelSchema>;
 export type GitHubMilestone = z.infer<typeof GitHubMilestoneSchema>;
 export type GitHubIssue = z.infer<typeof GitHubIssueSchema>;
 export type GitHubSearchResponse = z.infer<typeof GitHubSearchResponseSchema>;
 export type GitHubPullRequest = z.infer<typeof GitHubPullRequestSchema>;
-export type GitHubPullRequestRef = z.infer<typeof GitHubPullRequestRefSchema>;
\ No newline at end of file
+export type GitHubPullRequestRef = z.infer<typeof GitHubPullRequestRefSchema>;
+export type PaginationOptions = z.infer<typeof PaginationOptionsSchema>;
+export type DiffLimits = z.infer<typeof DiffLimitsSchema>;
\ No newline at end of file
@@ -1,11 +1,28 @@
 import { getUserAgent } from "universal-user-agent";
-import { createGitHubError } from "./errors.js";
+import { getAuthorizationHeader } from "./auth.js";
+import { getActiveProfile } from "./profiles.js";
+import {
+  createGitHubError,
+  createGitHubGraphqlError,
+  GitHubError,
+  GitHubGraphqlErrorDetail,
+  GitHubRateLimitError,
+} from "./errors.js";
 import { VERSION } from "./version.js";
+import { PaginationOptions } from "./types.js";
 
 type RequestOptions = {
   method?: string;
   body?: unknown;
   headers?: Record<string, string>;
+  // Overrides the method-based decision on whether rate-limited requests are retried
+  idempotent?: boolean;
+  // Path used to pick credentials when the URL does not name the owner, as with GraphQL
+  authTarget?: string;
+  // Send the request without credentials when none can be chosen for it; only for public endpoints
+  optionalAuth?: boolean;
+  // Return a successful response body as a Buffer instead of parsing it
+  binary?: boolean;
 }
 
 async function parseResponseBody(response: Response): Promise<unknown> {
@@ -16,8 +33,19 @@ async function parseResponseBody(response: Response): Promise<unknown> {
   return response.text();
 }
 
+export function getGitHubApiUrl(): string {
+  return getActiveProfile().apiUrl;
+}
+
+export function resolveGitHubUrl(url: string): string {
+  if (/^https?:\/\//i.test(url)) {
+    return url;
+  }
+  return `${getGitHubApiUrl()}${url.startsWith("/") ? url : `/${url}`}`;
+}
+
 export function buildUrl(baseUrl: string, params: Record<string, string | number | undefined>): string {
-  const url = new URL(baseUrl);
+  const url = new URL(resolveGitHubUrl(baseUrl));
   Object.entries(params).forEach(([key, value]) => {
     if (value !== undefined) {
       url.searchParams.append(key, value.toString());
@@ -28,10 +56,38 @@ export function buildUrl(baseUrl: string, params: Record<string, string | number
 
 const USER_AGENT = `modelcontextprotocol/servers/github/v${VERSION} ${getUserAgent()}`;
 
-export async function githubRequest(
+type GitHubResponse = {
+  body: unknown;
+  headers: Headers;
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_JITTER_MS = 1000;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function getRetryDelay(error: GitHubRateLimitError, attempt: number): number {
+  const untilReset = error.resetAt.getTime() - Date.now();
+  const delay = untilReset > 0 ? untilReset : RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return delay + Math.floor(Math.random() * RETRY_JITTER_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function sendGitHubRequest(
   url: string,
   options: RequestOptions = {}
-): Promise<unknown> {
+): Promise<GitHubResponse> {
   const headers: Record<string, string> = {
     "Accept": "application/vnd.github.v3+json",
     "Content-Type": "application/json",
@@ -39,23 +95,212 @@ export async function githubRequest(
     ...options.headers,
   };
 
-  if (process.env.GITHUB_PERSONAL_ACCESS_TOKEN) {
-    headers["Authorization"] = `Bearer ${process.env.GITHUB_PERSONAL_ACCESS_TOKEN}`;
+  if (!headers["Authorization"]) {
+    const authorization = await getAuthorizationHeader(
+      getActiveProfile(),
+      resolveGitHubUrl(options.authTarget ?? url),
+      options.optionalAuth
+    );
+    if (authorization) {
+      headers["Authorization"] = authorization;
+    }
   }
 
-  const response = await fetch(url, {
-    method: options.method || "GET",
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  });
+  const method = (options.method || "GET").toUpperCase();
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+  const maxRetries = idempotent ? readNumberEnv("GITHUB_MAX_RETRIES", 3) : 0;
+  const retryBudgetMs = readNumberEnv("GITHUB_RETRY_BUDGET_SECONDS", 60) * 1000;
+  let waitedMs = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(resolveGitHubUrl(url), {
+      method,
+      headers,
+      // Buffers, such as release asset uploads, are sent as they are
+      body: Buffer.isBuffer(options.body)
+        ? options.body
+        : options.body ? JSON.stringify(options.body) : undefined,
+    });
+
+    if (response.ok && options.binary) {
+      return { body: Buffer.from(await response.arrayBuffer()), headers: response.headers };
+    }
+    const responseBody = await parseResponseBody(response);
+
+    if (response.ok) {
+      return { body: responseBody, headers: response.headers };
+    }
+
+    const error = createGitHubError(response.status, responseBody, response.headers);
+    if (!(error instanceof GitHubRateLimitError) || attempt >= maxRetries) {
+      throw error;
+    }
+
+    // Only wait if the limit lifts within the remaining budget; otherwise
+    // surface the error with its reset time right away
+    const delay = getRetryDelay(error, attempt);
+    if (waitedMs + delay > retryBudgetMs) {
+      throw error;
+    }
+    console.error(
+      `GitHub ${error.kind} rate limit hit for ${method} ${url}; retrying in ${Math.ceil(delay / 1000)}s`
+    );
+    await sleep(delay);
+    waitedMs += delay;
+  }
+}
+
+export async function githubRequest(
+  url: string,
+  options: RequestOptions = {}
+): Promise<unknown> {
+  const { body } = await sendGitHubRequest(url, options);
+  return body;
+}
+
+// Upper bound applied when all_pages is requested without an explicit max_items
+export const DEFAULT_MAX_PAGINATED_ITEMS = 1000;
+
+export type PaginatedResult<T> = {
+  items: T[];
+  truncated: boolean;
+  next_page?: number;
+  // Page size next_page counts in; continue with the same per_page
+  per_page?: number;
+  // Items at the start of next_page that were already returned
+  skip?: number;
+  next_cursor?: string;
+};
+
+// GitHub's page size when a request does not set per_page
+const DEFAULT_PER_PAGE = 30;
+
+function getNextPageUrl(linkHeader: string | null): string | undefined {
+  if (!linkHeader) {
+    return undefined;
+  }
+  for (const link of linkHeader.split(",")) {
+    const match = link.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match && match[2].split(/\s+/).includes("next")) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function getPageNumber(url: string): number | undefined {
+  const page = new URL(resolveGitHubUrl(url)).searchParams.get("page");
+  if (page === null) {
+    return 1;
+  }
+  const parsed = Number(page);
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+function getPerPage(url: string): number {
+  const perPage = Number(new URL(resolveGitHubUrl(url)).searchParams.get("per_page"));
+  return Number.isInteger(perPage) && perPage > 0 ? perPage : DEFAULT_PER_PAGE;
+}
+
+/**
+ * Picks a page size of at most 100 for fetching `limit` items. A size that
+ * divides the limit is preferred so the cut falls on a page boundary.
+ */
+function choosePageSize(limit: number): number {
+  if (limit <= 100) {
+    return limit;
+  }
+  for (let size = 100; size >= 50; size--) {
+    if (limit % size === 0) {
+      return size;
+    }
+  }
+  return 100;
+}
+
+/**
+ * Fetches a list endpoint, following `Link: rel="next"` headers.
+ *
+ * Without `all_pages` or `max_items` only the requested page is fetched. The
+ * result is marked `truncated` whenever GitHub has more items than were
+ * returned, with `next_page` and `per_page` set to the page to request to
+ * continue. When `max_items` cuts a page short, `next_page` is that page and
+ * `skip` counts its items that were already returned.
+ *
+ * Endpoints that wrap their list in an object, such as `{ total_count,
+ * check_runs }`, name the list property with `itemsKey`.
+ */
+export async function githubPaginate(
+  url: string,
+  options: PaginationOptions = {},
+  itemsKey?: string
+): Promise<PaginatedResult<unknown>> {
+  const followPages = options.all_pages === true || options.max_items !== undefined;
+  const limit = options.max_items
+    ?? (options.all_pages ? DEFAULT_MAX_PAGINATED_ITEMS : Number.POSITIVE_INFINITY);
+
+  let nextUrl: string | undefined = resolveGitHubUrl(url);
+  if (followPages) {
+    const firstPage = new URL(nextUrl);
+    if (!firstPage.searchParams.has("per_page")) {
+      firstPage.searchParams.set("per_page", choosePageSize(limit).toString());
+    }
+    nextUrl = firstPage.toString();
+  }
 
-  const responseBody = await parseResponseBody(response);
+  const items: unknown[] = [];
+  while (nextUrl) {
+    const pageUrl: string = nextUrl;
+    const { body: response, headers } = await sendGitHubRequest(pageUrl);
+    const body = itemsKey === undefined
+      ? response
+      : (response as Record<string, unknown> | null)?.[itemsKey];
+    if (!Array.isArray(body)) {
+      throw new GitHubError(`Expected a list response from ${pageUrl}`, 500, response);
+    }
+    nextUrl = getNextPageUrl(headers.get("link"));
+
+    const remaining = limit - items.length;
+    if (body.length > remaining) {
+      items.push(...body.slice(0, remaining));
+      return {
+        items,
+        truncated: true,
+        next_page: getPageNumber(pageUrl),
+        per_page: getPerPage(pageUrl),
+        skip: remaining,
+      };
+    }
+    items.push(...body);
 
-  if (!response.ok) {
-    throw createGitHubError(response.status, responseBody);
+    if (!followPages || items.length >= limit) {
+      break;
+    }
   }
 
-  return responseBody;
+  return {
+    items,
+    truncated: nextUrl !== undefined,
+    next_page: nextUrl ? getPageNumber(nextUrl) : undefined,
+    per_page: nextUrl ? getPerPage(nextUrl) : undefined,
+  };
+}
+
+/**
+ * Treats content as binary when it has a NUL byte near the start or is not
+ * valid UTF-8, the same heuristic git uses plus an encoding check. For a
+ * `partial` prefix of a file, a character cut off at the end is allowed.
+ */
+export function isBinaryContent(content: Buffer, partial = false): boolean {
+  if (content.subarray(0, 8000).includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(content, { stream: partial });
+    return false;
+  } catch {
+    return true;
+  }
 }
 
 export function validateBranchName(branch: string): string {
@@ -114,7 +359,7 @@ export async function checkBranchExists(
 ): Promise<boolean> {
   try {
     await githubRequest(
-      `https://api.github.com/repos/${owner}/${repo}/branches/${branch}`
+      `/repos/${owner}/${repo}/branches/${branch}`
     );
     return true;
   } catch (error) {
@@ -127,7 +372,7 @@ export async function checkBranchExists(
 
 export async function checkUserExists(username: string): Promise<boolean> {
   try {
-    await githubRequest(`https://api.github.com/users/${username}`);
+    await githubRequest(`/users/${username}`);
     return true;
   } catch (error) {
     if (error && typeof error === "object" && "status" in error && error.status === 404) {
@@ -135,4 +380,134 @@ export async function checkUserExists(username: string): Promise<boolean> {
     }
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Confirms that the active profile's API root answers like a GitHub REST API
+ * by requesting `/meta`, so a wrong host or API URL fails at startup instead
+ * of on the first tool call.
+ */
+export async function verifyGitHubApi(): Promise<{ apiUrl: string; installedVersion?: string }> {
+  const apiUrl = getGitHubApiUrl();
+  let meta: unknown;
+  try {
+    // A GitHub App with several installations has no installation for /meta, which is public anyway
+    meta = await githubRequest("/meta", { optionalAuth: true });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`GitHub API check against ${apiUrl}/meta failed: ${reason}`);
+  }
+
+  if (!meta || typeof meta !== "object") {
+    throw new GitHubError(
+      `${apiUrl}/meta did not return a GitHub API response; check the configured host or API URL`,
+      500,
+      meta
+    );
+  }
+
+  const installedVersion = "installed_version" in meta && typeof meta.installed_version === "string"
+    ? meta.installed_version
+    : undefined;
+  return { apiUrl, installedVersion };
+}
+
+/**
+ * Derives the path that picks credentials for a search from its `repo:`,
+ * `org:` or `user:` qualifier, since search URLs name no owner.
+ */
+export function getSearchAuthTarget(query: string): string | undefined {
+  const repo = query.match(/(?:^|\s)repo:([^\s/]+)\/([^\s]+)/);
+  if (repo) {
+    return `/repos/${repo[1]}/${repo[2]}`;
+  }
+  const owner = query.match(/(?:^|\s)(?:org|user):([^\s]+)/);
+  return owner ? `/users/${owner[1]}` : undefined;
+}
+
+export function getGitHubGraphqlUrl(): string {
+  const apiUrl = getGitHubApiUrl();
+  // GitHub Enterprise Server serves GraphQL at /api/graphql rather than under /api/v3
+  if (apiUrl.endsWith("/api/v3")) {
+    return `${apiUrl.slice(0, -"/v3".length)}/graphql`;
+  }
+  return `${apiUrl}/graphql`;
+}
+
+type GraphqlResponse<T> = {
+  data?: T | null;
+  errors?: GitHubGraphqlErrorDetail[];
+};
+
+/**
+ * Runs a GraphQL document against the active profile's host. `owner` and
+ * `repo` variables, when present, choose credentials the same way a REST
+ * URL would, and GraphQL `errors` are raised as `GitHubError`s.
+ */
+export async function githubGraphql<T = unknown>(
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const owner = typeof variables.owner === "string" ? variables.owner : undefined;
+  const repo = typeof variables.repo === "string" ? variables.repo : undefined;
+
+  const { body, headers } = await sendGitHubRequest(getGitHubGraphqlUrl(), {
+    method: "POST",
+    body: { query, variables },
+    idempotent: !/^\s*mutation\b/.test(query),
+    authTarget: owner ? (repo ? `/repos/${owner}/${repo}` : `/users/${owner}`) : undefined,
+  });
+
+  const { data, errors } = (body ?? {}) as GraphqlResponse<T>;
+  if (errors && errors.length > 0) {
+    throw createGitHubGraphqlError(errors, headers);
+  }
+  if (data === undefined || data === null) {
+    throw new GitHubError("GitHub GraphQL API returned no data", 500, body);
+  }
+  return data;
+}
+
+export type GraphqlConnection<T> = {
+  nodes: T[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+};
+
+// Page size used when a single GraphQL page is requested without max_items
+const DEFAULT_GRAPHQL_PAGE_SIZE = 50;
+
+/**
+ * Follows a GraphQL connection using `$first`/`$after` variables, which the
+ * query must declare. Pagination options behave as in `githubPaginate`, with
+ * `next_cursor` marking where to resume via `after`.
+ */
+export async function githubGraphqlPaginate<T, D = unknown>(
+  query: string,
+  variables: Record<string, unknown>,
+  getConnection: (data: D) => GraphqlConnection<T>,
+  options: PaginationOptions & { after?: string } = {}
+): Promise<PaginatedResult<T>> {
+  const followPages = options.all_pages === true || options.max_items !== undefined;
+  const limit = options.max_items
+    ?? (options.all_pages ? DEFAULT_MAX_PAGINATED_ITEMS : DEFAULT_GRAPHQL_PAGE_SIZE);
+
+  const items: T[] = [];
+  let after = options.after;
+  for (;;) {
+    const first = Math.min(100, limit - items.length);
+    const data = await githubGraphql<D>(query, { ...variables, first, after });
+    const { nodes, pageInfo } = getConnection(data);
+    items.push(...nodes);
+
+    if (!pageInfo.hasNextPage || !pageInfo.endCursor) {
+      return { items, truncated: false };
+    }
+    after = pageInfo.endCursor;
+    if (!followPages || items.length >= limit) {
+      return { items, truncated: true, next_cursor: after };
+    }
+  }
+}
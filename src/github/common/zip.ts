@@ -0,0 +1,119 @@
+import { createInflateRaw } from "node:zlib";
+
+export type ZipEntry = {
+  name: string;
+  directory: boolean;
+  compressed_size: number;
+  size: number;
+  method: number;
+  local_header_offset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+// 32-bit fields hold this value when the real one is in a ZIP64 record
+const ZIP64_MARKER = 0xffffffff;
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes followed by a comment of up to 64 KiB
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a zip archive: end of central directory not found");
+}
+
+/**
+ * Lists the entries of a zip archive from its central directory. ZIP64
+ * archives (over 4 GiB or 65535 entries) are not supported.
+ */
+export function listZipEntries(archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (offset === ZIP64_MARKER) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt zip archive: bad central directory entry at offset ${offset}`);
+    }
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    entries.push({
+      name,
+      directory: name.endsWith("/"),
+      compressed_size: compressedSize,
+      size,
+      method: archive.readUInt16LE(offset + 10),
+      local_header_offset: archive.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Inflates a deflate stream only until `limit` bytes have come out
+function inflatePrefix(data: Buffer, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    const inflate = createInflateRaw();
+    const finish = () => resolve(Buffer.concat(chunks).subarray(0, limit));
+    inflate.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= limit) {
+        inflate.destroy();
+        finish();
+      }
+    });
+    inflate.on("end", finish);
+    inflate.on("error", reject);
+    inflate.end(data);
+  });
+}
+
+/**
+ * Extracts the first `maxBytes` bytes of an entry, or all of it up to the
+ * size the central directory declares. Inflation stops at that bound, so an
+ * archive whose entries expand far beyond it costs no more memory than the
+ * bound itself.
+ */
+export async function readZipEntry(
+  archive: Buffer,
+  entry: ZipEntry,
+  maxBytes: number = entry.size
+): Promise<Buffer> {
+  const limit = Math.min(entry.size, maxBytes);
+  const header = entry.local_header_offset;
+  if (archive.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip archive: bad local header for ${entry.name}`);
+  }
+  // The local header's own name and extra lengths can differ from the central directory's
+  const start = header + 30 + archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28);
+  const data = archive.subarray(start, start + entry.compressed_size);
+
+  if (entry.method === STORED) {
+    return data.subarray(0, limit);
+  }
+  if (entry.method === DEFLATED) {
+    return limit > 0 ? inflatePrefix(data, limit) : Buffer.alloc(0);
+  }
+  throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
@@ -15,6 +15,8 @@ import * as pulls from './operations/pulls.js';
 import * as branches from './operations/branches.js';
 import * as search from './operations/search.js';
 import * as commits from './operations/commits.js';
+import * as actions from './operations/actions.js';
+import * as releases from './operations/releases.js';
 import {
   GitHubError,
   GitHubValidationError,
@@ -26,6 +28,22 @@ import {
   isGitHubError,
 } from './common/errors.js';
 import { VERSION } from "./common/version.js";
+import {
+  ToolContentResult,
+  ToolContext,
+  ToolDefinition,
+  ToolRegistry,
+  getEnabledToolsets,
+} from "./common/registry.js";
+import { verifyGitHubApi } from "./common/utils.js";
+import {
+  DEFAULT_GITHUB_API_URL,
+  ProfileSelectionSchema,
+  getProfiles,
+  hasMultipleProfiles,
+  runWithProfile,
+  selectProfile,
+} from "./common/profiles.js";
 
 const server = new Server(
   {
@@ -39,7 +57,7 @@ const server = new Server(
   }
 );
 
-function formatGitHubError(error: GitHubError): string {
+function formatGitHubError(error: GitHubError, tool?: ToolDefinition): string {
   let message = `GitHub API Error: ${error.message}`;
   
   if (error instanceof GitHubValidationError) {
@@ -53,8 +71,13 @@ function formatGitHubError(error: GitHubError): string {
     message = `Authentication Failed: ${error.message}`;
   } else if (error instanceof GitHubPermissionError) {
     message = `Permission Denied: ${error.message}`;
+    if (tool && tool.scopes.length > 0) {
+      message += `\n${tool.name} requires a token with these scopes: ${tool.scopes.join(", ")}`;
+    }
   } else if (error instanceof GitHubRateLimitError) {
-    message = `Rate Limit Exceeded: ${error.message}\nResets at: ${error.resetAt.toISOString()}`;
+    const limit = error.kind === "secondary" ? "secondary rate limit" : "primary rate limit";
+    const seconds = Math.max(0, Math.ceil((error.resetAt.getTime() - Date.now()) / 1000));
+    message = `Rate Limit Exceeded (${limit}): ${error.message}\nResets at: ${error.resetAt.toISOString()} (in ${seconds}s)`;
   } else if (error instanceof GitHubConflictError) {
     message = `Conflict: ${error.message}`;
   }
@@ -62,415 +85,97 @@ function formatGitHubError(error: GitHubError): string {
   return message;
 }
 
+const registry = new ToolRegistry([
+  ...repository.tools,
+  ...files.tools,
+  ...branches.tools,
+  ...commits.tools,
+  ...issues.tools,
+  ...pulls.tools,
+  ...search.tools,
+  ...actions.tools,
+  ...releases.tools,
+]);
+
+// Tools only advertise host/profile selection when there is more than one profile
+function toolInputSchema(schema: z.AnyZodObject) {
+  return zodToJsonSchema(hasMultipleProfiles() ? schema.merge(ProfileSelectionSchema) : schema);
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: [
-      {
-        name: "create_or_update_file",
-        description: "Create or update a single file in a GitHub repository",
-        inputSchema: zodToJsonSchema(files.CreateOrUpdateFileSchema),
-      },
-      {
-        name: "search_repositories",
-        description: "Search for GitHub repositories",
-        inputSchema: zodToJsonSchema(repository.SearchRepositoriesSchema),
-      },
-      {
-        name: "create_repository",
-        description: "Create a new GitHub repository in your account",
-        inputSchema: zodToJsonSchema(repository.CreateRepositoryOptionsSchema),
-      },
-      {
-        name: "get_file_contents",
-        description: "Get the contents of a file or directory from a GitHub repository",
-        inputSchema: zodToJsonSchema(files.GetFileContentsSchema),
-      },
-      {
-        name: "push_files",
-        description: "Push multiple files to a GitHub repository in a single commit",
-        inputSchema: zodToJsonSchema(files.PushFilesSchema),
-      },
-      {
-        name: "create_issue",
-        description: "Create a new issue in a GitHub repository",
-        inputSchema: zodToJsonSchema(issues.CreateIssueSchema),
-      },
-      {
-        name: "create_pull_request",
-        description: "Create a new pull request in a GitHub repository",
-        inputSchema: zodToJsonSchema(pulls.CreatePullRequestSchema),
-      },
-      {
-        name: "fork_repository",
-        description: "Fork a GitHub repository to your account or specified organization",
-        inputSchema: zodToJsonSchema(repository.ForkRepositorySchema),
-      },
-      {
-        name: "create_branch",
-        description: "Create a new branch in a GitHub repository",
-        inputSchema: zodToJsonSchema(branches.CreateBranchSchema),
-      },
-      {
-        name: "list_commits",
-        description: "Get list of commits of a branch in a GitHub repository",
-        inputSchema: zodToJsonSchema(commits.ListCommitsSchema)
-      },
-      {
-        name: "list_issues",
-        description: "List issues in a GitHub repository with filtering options",
-        inputSchema: zodToJsonSchema(issues.ListIssuesOptionsSchema)
-      },
-      {
-        name: "update_issue",
-        description: "Update an existing issue in a GitHub repository",
-        inputSchema: zodToJsonSchema(issues.UpdateIssueOptionsSchema)
-      },
-      {
-        name: "add_issue_comment",
-        description: "Add a comment to an existing issue",
-        inputSchema: zodToJsonSchema(issues.IssueCommentSchema)
-      },
-      {
-        name: "search_code",
-        description: "Search for code across GitHub repositories",
-        inputSchema: zodToJsonSchema(search.SearchCodeSchema),
-      },
-      {
-        name: "search_issues",
-        description: "Search for issues and pull requests across GitHub repositories",
-        inputSchema: zodToJsonSchema(search.SearchIssuesSchema),
-      },
-      {
-        name: "search_users",
-        description: "Search for users on GitHub",
-        inputSchema: zodToJsonSchema(search.SearchUsersSchema),
-      },
-      {
-        name: "get_issue",
-        description: "Get details of a specific issue in a GitHub repository.",
-        inputSchema: zodToJsonSchema(issues.GetIssueSchema)
-      },
-      {
-        name: "get_pull_request",
-        description: "Get details of a specific pull request",
-        inputSchema: zodToJsonSchema(pulls.GetPullRequestSchema)
-      },
-      {
-        name: "list_pull_requests",
-        description: "List and filter repository pull requests",
-        inputSchema: zodToJsonSchema(pulls.ListPullRequestsSchema)
-      },
-      {
-        name: "create_pull_request_review",
-        description: "Create a review on a pull request",
-        inputSchema: zodToJsonSchema(pulls.CreatePullRequestReviewSchema)
-      },
-      {
-        name: "merge_pull_request",
-        description: "Merge a pull request",
-        inputSchema: zodToJsonSchema(pulls.MergePullRequestSchema)
-      },
-      {
-        name: "get_pull_request_files",
-        description: "Get the list of files changed in a pull request",
-        inputSchema: zodToJsonSchema(pulls.GetPullRequestFilesSchema)
-      },
-      {
-        name: "get_pull_request_status",
-        description: "Get the combined status of all status checks for a pull request",
-        inputSchema: zodToJsonSchema(pulls.GetPullRequestStatusSchema)
-      },
-      {
-        name: "update_pull_request_branch",
-        description: "Update a pull request branch with the latest changes from the base branch",
-        inputSchema: zodToJsonSchema(pulls.UpdatePullRequestBranchSchema)
-      },
-      {
-        name: "get_pull_request_comments",
-        description: "Get the review comments on a pull request",
-        inputSchema: zodToJsonSchema(pulls.GetPullRequestCommentsSchema)
-      },
-      {
-        name: "get_pull_request_reviews",
-        description: "Get the reviews on a pull request",
-        inputSchema: zodToJsonSchema(pulls.GetPullRequestReviewsSchema)
-      }
-    ],
+    tools: registry.listEnabled().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toolInputSchema(tool.schema),
+    })),
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+function createToolContext(
+  progressToken: string | number | undefined,
+  signal: AbortSignal
+): ToolContext {
+  return {
+    signal,
+    reportProgress: async (progress, total) => {
+      if (progressToken === undefined || signal.aborted) {
+        return;
+      }
+      await server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total },
+      });
+    },
+  };
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   try {
     if (!request.params.arguments) {
       throw new Error("Arguments are required");
     }
 
-    switch (request.params.name) {
-      case "fork_repository": {
-        const args = repository.ForkRepositorySchema.parse(request.params.arguments);
-        const fork = await repository.forkRepository(args.owner, args.repo, args.organization);
-        return {
-          content: [{ type: "text", text: JSON.stringify(fork, null, 2) }],
-        };
-      }
-
-      case "create_branch": {
-        const args = branches.CreateBranchSchema.parse(request.params.arguments);
-        const branch = await branches.createBranchFromRef(
-          args.owner,
-          args.repo,
-          args.branch,
-          args.from_branch
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(branch, null, 2) }],
-        };
-      }
-
-      case "search_repositories": {
-        const args = repository.SearchRepositoriesSchema.parse(request.params.arguments);
-        const results = await repository.searchRepositories(
-          args.query,
-          args.page,
-          args.perPage
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
-
-      case "create_repository": {
-        const args = repository.CreateRepositoryOptionsSchema.parse(request.params.arguments);
-        const result = await repository.createRepository(args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "get_file_contents": {
-        const args = files.GetFileContentsSchema.parse(request.params.arguments);
-        const contents = await files.getFileContents(
-          args.owner,
-          args.repo,
-          args.path,
-          args.branch
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(contents, null, 2) }],
-        };
-      }
-
-      case "create_or_update_file": {
-        const args = files.CreateOrUpdateFileSchema.parse(request.params.arguments);
-        const result = await files.createOrUpdateFile(
-          args.owner,
-          args.repo,
-          args.path,
-          args.content,
-          args.message,
-          args.branch,
-          args.sha
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "push_files": {
-        const args = files.PushFilesSchema.parse(request.params.arguments);
-        const result = await files.pushFiles(
-          args.owner,
-          args.repo,
-          args.branch,
-          args.files,
-          args.message
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "create_issue": {
-        const args = issues.CreateIssueSchema.parse(request.params.arguments);
-        const { owner, repo, ...options } = args;
-        const issue = await issues.createIssue(owner, repo, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
-        };
-      }
-
-      case "create_pull_request": {
-        const args = pulls.CreatePullRequestSchema.parse(request.params.arguments);
-        const pullRequest = await pulls.createPullRequest(args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(pullRequest, null, 2) }],
-        };
-      }
-
-      case "search_code": {
-        const args = search.SearchCodeSchema.parse(request.params.arguments);
-        const results = await search.searchCode(args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
-
-      case "search_issues": {
-        const args = search.SearchIssuesSchema.parse(request.params.arguments);
-        const results = await search.searchIssues(args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
-
-      case "search_users": {
-        const args = search.SearchUsersSchema.parse(request.params.arguments);
-        const results = await search.searchUsers(args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
-
-      case "list_issues": {
-        const args = issues.ListIssuesOptionsSchema.parse(request.params.arguments);
-        const { owner, repo, ...options } = args;
-        const result = await issues.listIssues(owner, repo, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "update_issue": {
-        const args = issues.UpdateIssueOptionsSchema.parse(request.params.arguments);
-        const { owner, repo, issue_number, ...options } = args;
-        const result = await issues.updateIssue(owner, repo, issue_number, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "add_issue_comment": {
-        const args = issues.IssueCommentSchema.parse(request.params.arguments);
-        const { owner, repo, issue_number, body } = args;
-        const result = await issues.addIssueComment(owner, repo, issue_number, body);
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "list_commits": {
-        const args = commits.ListCommitsSchema.parse(request.params.arguments);
-        const results = await commits.listCommits(
-          args.owner,
-          args.repo,
-          args.page,
-          args.perPage,
-          args.sha
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
-
-      case "get_issue": {
-        const args = issues.GetIssueSchema.parse(request.params.arguments);
-        const issue = await issues.getIssue(args.owner, args.repo, args.issue_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
-        };
-      }
-
-      case "get_pull_request": {
-        const args = pulls.GetPullRequestSchema.parse(request.params.arguments);
-        const pullRequest = await pulls.getPullRequest(args.owner, args.repo, args.pull_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(pullRequest, null, 2) }],
-        };
-      }
-
-      case "list_pull_requests": {
-        const args = pulls.ListPullRequestsSchema.parse(request.params.arguments);
-        const { owner, repo, ...options } = args;
-        const pullRequests = await pulls.listPullRequests(owner, repo, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(pullRequests, null, 2) }],
-        };
-      }
-
-      case "create_pull_request_review": {
-        const args = pulls.CreatePullRequestReviewSchema.parse(request.params.arguments);
-        const { owner, repo, pull_number, ...options } = args;
-        const review = await pulls.createPullRequestReview(owner, repo, pull_number, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(review, null, 2) }],
-        };
-      }
-
-      case "merge_pull_request": {
-        const args = pulls.MergePullRequestSchema.parse(request.params.arguments);
-        const { owner, repo, pull_number, ...options } = args;
-        const result = await pulls.mergePullRequest(owner, repo, pull_number, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "get_pull_request_files": {
-        const args = pulls.GetPullRequestFilesSchema.parse(request.params.arguments);
-        const files = await pulls.getPullRequestFiles(args.owner, args.repo, args.pull_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(files, null, 2) }],
-        };
-      }
-
-      case "get_pull_request_status": {
-        const args = pulls.GetPullRequestStatusSchema.parse(request.params.arguments);
-        const status = await pulls.getPullRequestStatus(args.owner, args.repo, args.pull_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
-        };
-      }
-
-      case "update_pull_request_branch": {
-        const args = pulls.UpdatePullRequestBranchSchema.parse(request.params.arguments);
-        const { owner, repo, pull_number, expected_head_sha } = args;
-        await pulls.updatePullRequestBranch(owner, repo, pull_number, expected_head_sha);
-        return {
-          content: [{ type: "text", text: JSON.stringify({ success: true }, null, 2) }],
-        };
-      }
-
-      case "get_pull_request_comments": {
-        const args = pulls.GetPullRequestCommentsSchema.parse(request.params.arguments);
-        const comments = await pulls.getPullRequestComments(args.owner, args.repo, args.pull_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(comments, null, 2) }],
-        };
-      }
-
-      case "get_pull_request_reviews": {
-        const args = pulls.GetPullRequestReviewsSchema.parse(request.params.arguments);
-        const reviews = await pulls.getPullRequestReviews(args.owner, args.repo, args.pull_number);
-        return {
-          content: [{ type: "text", text: JSON.stringify(reviews, null, 2) }],
-        };
-      }
-
-      default:
-        throw new Error(`Unknown tool: ${request.params.name}`);
+    const tool = registry.resolve(request.params.name);
+    const args = tool.schema.parse(request.params.arguments);
+    const selection = ProfileSelectionSchema.parse(request.params.arguments);
+    const profile = selectProfile({
+      ...selection,
+      owner: typeof args.owner === "string" ? args.owner : undefined,
+    });
+    const context = createToolContext(request.params._meta?.progressToken, extra.signal);
+    const result = await runWithProfile(profile, () => tool.handler(args, context));
+    if (result instanceof ToolContentResult) {
+      return { content: result.content };
     }
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
   } catch (error) {
     if (error instanceof z.ZodError) {
       throw new Error(`Invalid input: ${JSON.stringify(error.errors)}`);
     }
     if (isGitHubError(error)) {
-      throw new Error(formatGitHubError(error));
+      throw new Error(formatGitHubError(error, registry.find(request.params.name)));
     }
     throw error;
   }
 });
 
 async function runServer() {
+  // Validate the toolset selection before accepting any requests
+  getEnabledToolsets();
+
+  for (const profile of getProfiles().values()) {
+    if (profile.apiUrl === DEFAULT_GITHUB_API_URL) {
+      continue;
+    }
+    const { apiUrl, installedVersion } = await runWithProfile(profile, verifyGitHubApi);
+    console.error(
+      `Profile '${profile.name}' uses GitHub API at ${apiUrl}${installedVersion ? ` (GitHub Enterprise Server ${installedVersion})` : ""}`
+    );
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("GitHub MCP Server running on stdio");
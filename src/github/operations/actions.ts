@@ -0,0 +1,617 @@
+import { z } from "zod";
+import {
+  buildUrl,
+  githubPaginate,
+  githubRequest,
+  isBinaryContent,
+  PaginatedResult,
+} from "../common/utils.js";
+import { PaginationOptionsSchema } from "../common/types.js";
+import { GitHubValidationError } from "../common/errors.js";
+import { defineTool } from "../common/registry.js";
+import { matchesAnyGlob } from "../common/glob.js";
+import { listZipEntries, readZipEntry } from "../common/zip.js";
+
+// Schema definitions
+export const WorkflowSchema = z.object({
+  id: z.number(),
+  node_id: z.string(),
+  name: z.string(),
+  path: z.string(),
+  state: z.string(),
+  html_url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const WorkflowRunSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable().optional(),
+  display_title: z.string().optional(),
+  workflow_id: z.number(),
+  head_branch: z.string().nullable(),
+  head_sha: z.string(),
+  run_number: z.number(),
+  run_attempt: z.number().optional(),
+  event: z.string(),
+  status: z.string().nullable(),
+  conclusion: z.string().nullable(),
+  html_url: z.string(),
+  actor: z.object({ login: z.string() }).nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  run_started_at: z.string().optional(),
+});
+
+export const WorkflowJobStepSchema = z.object({
+  number: z.number(),
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  started_at: z.string().nullable().optional(),
+  completed_at: z.string().nullable().optional(),
+});
+
+export const WorkflowJobSchema = z.object({
+  id: z.number(),
+  run_id: z.number(),
+  run_attempt: z.number().optional(),
+  name: z.string(),
+  head_sha: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  html_url: z.string().nullable(),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  runner_name: z.string().nullable().optional(),
+  labels: z.array(z.string()).optional(),
+  steps: z.array(WorkflowJobStepSchema).optional(),
+});
+
+export const ArtifactSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size_in_bytes: z.number(),
+  expired: z.boolean(),
+  created_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  workflow_run: z.object({
+    id: z.number().optional(),
+    head_branch: z.string().nullable().optional(),
+    head_sha: z.string().optional(),
+  }).nullable().optional(),
+});
+
+const WorkflowIdSchema = z.union([z.number(), z.string()])
+  .describe("Workflow ID or workflow file name (e.g. 'ci.yml')");
+
+export const ListWorkflowsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  page: z.number().optional().describe("Page number for pagination"),
+  per_page: z.number().optional().describe("Results per page (max 100)"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const ListWorkflowRunsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  workflow_id: WorkflowIdSchema.optional(),
+  branch: z.string().optional().describe("Only runs triggered on this branch"),
+  event: z.string().optional().describe("Only runs triggered by this event (e.g. 'push', 'pull_request', 'workflow_dispatch')"),
+  status: z.enum([
+    'completed', 'action_required', 'cancelled', 'failure', 'neutral', 'skipped', 'stale',
+    'success', 'timed_out', 'in_progress', 'queued', 'requested', 'waiting', 'pending',
+  ]).optional().describe("Only runs with this status or conclusion"),
+  actor: z.string().optional().describe("Only runs started by this user"),
+  head_sha: z.string().optional().describe("Only runs for this commit SHA"),
+  page: z.number().optional().describe("Page number for pagination"),
+  per_page: z.number().optional().describe("Results per page (max 100)"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const GetWorkflowRunSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+});
+
+export const ListWorkflowJobsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+  filter: z.enum(['latest', 'all']).optional().describe("Jobs from the latest attempt only (default) or from every attempt"),
+  page: z.number().optional().describe("Page number for pagination"),
+  per_page: z.number().optional().describe("Results per page (max 100)"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const GetWorkflowJobSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  job_id: z.number().describe("Job ID"),
+});
+
+export const RunWorkflowSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  workflow_id: WorkflowIdSchema,
+  ref: z.string().describe("Branch or tag to run the workflow on"),
+  inputs: z.record(z.union([z.string(), z.number(), z.boolean()])).optional()
+    .describe("Values for the workflow's workflow_dispatch inputs"),
+});
+
+export const RerunFailedJobsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+  enable_debug_logging: z.boolean().optional().describe("Re-run with debug logging enabled"),
+});
+
+export const CancelWorkflowRunSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+});
+
+export const GetJobLogsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  job_id: z.number().describe("Job ID"),
+  grep: z.string().optional().describe("Only return lines matching this case-insensitive regular expression"),
+  context_lines: z.number().int().min(0).max(50).optional().describe("Lines of context around each grep match (default: 2)"),
+  tail_lines: z.number().int().positive().optional().describe("Return at most this many lines from the end of the (filtered) log (default: 200)"),
+  timestamps: z.boolean().optional().describe("Keep the timestamp GitHub prefixes to every log line (default: false)"),
+});
+
+export const ListWorkflowRunArtifactsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  run_id: z.number().describe("Workflow run ID"),
+  name: z.string().optional().describe("Only artifacts with this exact name"),
+  page: z.number().optional().describe("Page number for pagination"),
+  per_page: z.number().optional().describe("Results per page (max 100)"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const DownloadWorkflowArtifactSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  artifact_id: z.number().describe("Artifact ID"),
+  paths: z.array(z.string()).optional().describe("Glob patterns selecting the files to return (e.g. '*.xml', 'coverage/**'); defaults to every text file"),
+  max_file_bytes: z.number().int().positive().optional().describe("Truncate each file's content after this many bytes (default: 100000)"),
+  max_total_bytes: z.number().int().positive().optional().describe("Stop inlining files once this many bytes have been returned (default: 500000)"),
+});
+
+// Type exports
+export type WorkflowRun = z.infer<typeof WorkflowRunSchema>;
+export type WorkflowJob = z.infer<typeof WorkflowJobSchema>;
+
+export type ArtifactEntry = {
+  path: string;
+  size: number;
+  // Only known for selected files, whose start is read to tell
+  binary?: boolean;
+  // Whether the content is inlined in `files`
+  included: boolean;
+};
+
+export type ArtifactFile = {
+  path: string;
+  content: string;
+  truncated: boolean;
+};
+
+export type JobLogs = {
+  job_id: number;
+  total_lines: number;
+  matched_lines?: number;
+  returned_lines: number;
+  truncated: boolean;
+  log: string;
+};
+
+// Function implementations
+export async function listWorkflows(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof ListWorkflowsSchema>, 'owner' | 'repo'>
+): Promise<PaginatedResult<z.infer<typeof WorkflowSchema>>> {
+  const result = await githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/actions/workflows`, {
+      page: options.page,
+      per_page: options.per_page,
+    }),
+    options,
+    'workflows'
+  );
+  return { ...result, items: z.array(WorkflowSchema).parse(result.items) };
+}
+
+export async function listWorkflowRuns(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof ListWorkflowRunsSchema>, 'owner' | 'repo'>
+): Promise<PaginatedResult<WorkflowRun>> {
+  const path = options.workflow_id === undefined
+    ? `/repos/${owner}/${repo}/actions/runs`
+    : `/repos/${owner}/${repo}/actions/workflows/${encodeURIComponent(options.workflow_id)}/runs`;
+
+  const result = await githubPaginate(
+    buildUrl(path, {
+      branch: options.branch,
+      event: options.event,
+      status: options.status,
+      actor: options.actor,
+      head_sha: options.head_sha,
+      page: options.page,
+      per_page: options.per_page,
+    }),
+    options,
+    'workflow_runs'
+  );
+  return { ...result, items: z.array(WorkflowRunSchema).parse(result.items) };
+}
+
+export async function getWorkflowRun(
+  owner: string,
+  repo: string,
+  runId: number
+): Promise<WorkflowRun> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/actions/runs/${runId}`);
+  return WorkflowRunSchema.parse(response);
+}
+
+export async function listWorkflowJobs(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: Omit<z.infer<typeof ListWorkflowJobsSchema>, 'owner' | 'repo' | 'run_id'>
+): Promise<PaginatedResult<WorkflowJob>> {
+  const result = await githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs`, {
+      filter: options.filter,
+      page: options.page,
+      per_page: options.per_page,
+    }),
+    options,
+    'jobs'
+  );
+  return { ...result, items: z.array(WorkflowJobSchema).parse(result.items) };
+}
+
+export async function getWorkflowJob(
+  owner: string,
+  repo: string,
+  jobId: number
+): Promise<WorkflowJob> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/actions/jobs/${jobId}`);
+  return WorkflowJobSchema.parse(response);
+}
+
+/**
+ * Triggers a workflow_dispatch event. GitHub does not return the run it
+ * creates; list the workflow's runs afterwards to find it.
+ */
+export async function runWorkflow(
+  owner: string,
+  repo: string,
+  workflowId: number | string,
+  ref: string,
+  inputs?: Record<string, string | number | boolean>
+) {
+  await githubRequest(
+    `/repos/${owner}/${repo}/actions/workflows/${encodeURIComponent(workflowId)}/dispatches`,
+    {
+      method: "POST",
+      // Dispatch inputs are always strings, whatever type the workflow declares
+      body: {
+        ref,
+        ...(inputs
+          ? { inputs: Object.fromEntries(Object.entries(inputs).map(([name, value]) => [name, String(value)])) }
+          : {}),
+      },
+    }
+  );
+  return { workflow_id: workflowId, ref, dispatched: true };
+}
+
+export async function rerunFailedJobs(
+  owner: string,
+  repo: string,
+  runId: number,
+  enableDebugLogging?: boolean
+) {
+  await githubRequest(
+    `/repos/${owner}/${repo}/actions/runs/${runId}/rerun-failed-jobs`,
+    {
+      method: "POST",
+      body: { enable_debug_logging: enableDebugLogging ?? false },
+    }
+  );
+  return { run_id: runId, rerun_requested: true };
+}
+
+export async function cancelWorkflowRun(owner: string, repo: string, runId: number) {
+  await githubRequest(
+    `/repos/${owner}/${repo}/actions/runs/${runId}/cancel`,
+    { method: "POST" }
+  );
+  return { run_id: runId, cancel_requested: true };
+}
+
+const DEFAULT_LOG_TAIL_LINES = 200;
+const DEFAULT_LOG_CONTEXT_LINES = 2;
+const LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z /;
+
+/**
+ * Trims a job log down to the part worth reading: the lines matching `grep`
+ * with some context, separated by `--` where lines were skipped, then the
+ * last `tail_lines` of what remains.
+ */
+export function trimJobLog(
+  log: string,
+  options: Pick<z.infer<typeof GetJobLogsSchema>, 'grep' | 'context_lines' | 'tail_lines' | 'timestamps'>
+): Omit<JobLogs, 'job_id'> {
+  let lines = log.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  if (!options.timestamps) {
+    lines = lines.map((line) => line.replace(LOG_TIMESTAMP, ""));
+  }
+
+  let selected = lines;
+  let matchedLines: number | undefined;
+  if (options.grep !== undefined) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(options.grep, "i");
+    } catch (error) {
+      throw new Error(`Invalid grep pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const context = options.context_lines ?? DEFAULT_LOG_CONTEXT_LINES;
+    const included = new Set<number>();
+    matchedLines = 0;
+    lines.forEach((line, index) => {
+      if (pattern.test(line)) {
+        matchedLines!++;
+        for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+          included.add(i);
+        }
+      }
+    });
+
+    selected = [];
+    let previous = -1;
+    for (const index of [...included].sort((a, b) => a - b)) {
+      if (previous !== -1 && index !== previous + 1) {
+        selected.push("--");
+      }
+      selected.push(lines[index]);
+      previous = index;
+    }
+  }
+
+  const tail = options.tail_lines ?? DEFAULT_LOG_TAIL_LINES;
+  const returned = selected.slice(-tail);
+  return {
+    total_lines: lines.length,
+    ...(matchedLines !== undefined ? { matched_lines: matchedLines } : {}),
+    returned_lines: returned.length,
+    truncated: returned.length < selected.length,
+    log: returned.join("\n"),
+  };
+}
+
+export async function getJobLogs(
+  owner: string,
+  repo: string,
+  jobId: number,
+  options: Omit<z.infer<typeof GetJobLogsSchema>, 'owner' | 'repo' | 'job_id'>
+): Promise<JobLogs> {
+  // GitHub redirects to a short-lived plain text download
+  const response = await githubRequest(`/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`);
+  const log = typeof response === "string" ? response : JSON.stringify(response);
+  return { job_id: jobId, ...trimJobLog(log, options) };
+}
+
+export async function listWorkflowRunArtifacts(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: Omit<z.infer<typeof ListWorkflowRunArtifactsSchema>, 'owner' | 'repo' | 'run_id'>
+): Promise<PaginatedResult<z.infer<typeof ArtifactSchema>>> {
+  const result = await githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/artifacts`, {
+      name: options.name,
+      page: options.page,
+      per_page: options.per_page,
+    }),
+    options,
+    'artifacts'
+  );
+  return { ...result, items: z.array(ArtifactSchema).parse(result.items) };
+}
+
+// Artifacts are unzipped in memory, so very large ones are refused up front
+const MAX_ARTIFACT_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+const DEFAULT_ARTIFACT_FILE_BYTES = 100_000;
+const DEFAULT_ARTIFACT_TOTAL_BYTES = 500_000;
+
+/**
+ * Downloads an artifact and returns the text files selected by `paths`,
+ * each truncated to `max_file_bytes`. Every file in the archive is listed
+ * in `entries`, but only selected files are decompressed, and no further
+ * than the bytes that can be returned; binary files are never inlined.
+ * `truncated` is set when a selected file was cut short or left out to stay
+ * within `max_total_bytes`.
+ */
+export async function downloadWorkflowArtifact(
+  owner: string,
+  repo: string,
+  artifactId: number,
+  options: Omit<z.infer<typeof DownloadWorkflowArtifactSchema>, 'owner' | 'repo' | 'artifact_id'>
+) {
+  const artifact = ArtifactSchema.parse(
+    await githubRequest(`/repos/${owner}/${repo}/actions/artifacts/${artifactId}`)
+  );
+  if (artifact.expired) {
+    throw new GitHubValidationError(
+      `Artifact ${artifact.name} expired at ${artifact.expires_at} and can no longer be downloaded`,
+      410,
+      { artifact_id: artifactId }
+    );
+  }
+  if (artifact.size_in_bytes > MAX_ARTIFACT_DOWNLOAD_BYTES) {
+    throw new GitHubValidationError(
+      `Artifact ${artifact.name} is ${artifact.size_in_bytes} bytes, over the ${MAX_ARTIFACT_DOWNLOAD_BYTES} byte download limit`,
+      422,
+      { artifact_id: artifactId, size_in_bytes: artifact.size_in_bytes }
+    );
+  }
+
+  // GitHub redirects to a short-lived download of the zip archive
+  const archive = await githubRequest(
+    `/repos/${owner}/${repo}/actions/artifacts/${artifactId}/zip`,
+    { binary: true }
+  ) as Buffer;
+
+  const maxFileBytes = options.max_file_bytes ?? DEFAULT_ARTIFACT_FILE_BYTES;
+  let budget = options.max_total_bytes ?? DEFAULT_ARTIFACT_TOTAL_BYTES;
+  let truncated = false;
+  const entries: ArtifactEntry[] = [];
+  const files: ArtifactFile[] = [];
+
+  for (const entry of listZipEntries(archive)) {
+    if (entry.directory) {
+      continue;
+    }
+    const selected = options.paths === undefined || matchesAnyGlob(entry.name, options.paths);
+    if (!selected || budget <= 0) {
+      entries.push({ path: entry.name, size: entry.size, included: false });
+      truncated ||= selected;
+      continue;
+    }
+
+    const limit = Math.min(maxFileBytes, budget);
+    const content = await readZipEntry(archive, entry, limit);
+    const cut = entry.size > content.length;
+    const binary = isBinaryContent(content, cut);
+    entries.push({ path: entry.name, size: entry.size, binary, included: !binary });
+    if (binary) {
+      continue;
+    }
+    // Cutting at a byte limit can split a character; the decoder replaces the fragment
+    files.push({ path: entry.name, content: content.toString("utf8"), truncated: cut });
+    truncated ||= cut;
+    budget -= content.length;
+  }
+
+  return { artifact_id: artifactId, name: artifact.name, entries, files, truncated };
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "list_workflows",
+    description: "List the GitHub Actions workflows in a repository",
+    toolset: "actions",
+    schema: ListWorkflowsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => listWorkflows(owner, repo, options),
+  }),
+  defineTool({
+    name: "list_workflow_runs",
+    description: "List GitHub Actions workflow runs in a repository, optionally for one workflow and filtered by branch, event or status",
+    toolset: "actions",
+    schema: ListWorkflowRunsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => listWorkflowRuns(owner, repo, options),
+  }),
+  defineTool({
+    name: "get_workflow_run",
+    description: "Get details of a GitHub Actions workflow run",
+    toolset: "actions",
+    schema: GetWorkflowRunSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getWorkflowRun(args.owner, args.repo, args.run_id),
+  }),
+  defineTool({
+    name: "list_workflow_jobs",
+    description: "List the jobs of a GitHub Actions workflow run with their steps",
+    toolset: "actions",
+    schema: ListWorkflowJobsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, run_id, ...options }) => listWorkflowJobs(owner, repo, run_id, options),
+  }),
+  defineTool({
+    name: "get_workflow_job",
+    description: "Get details of a GitHub Actions job, including the status of each step",
+    toolset: "actions",
+    schema: GetWorkflowJobSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getWorkflowJob(args.owner, args.repo, args.job_id),
+  }),
+  defineTool({
+    name: "run_workflow",
+    description: "Trigger a GitHub Actions workflow that has a workflow_dispatch trigger",
+    toolset: "actions",
+    schema: RunWorkflowSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => runWorkflow(args.owner, args.repo, args.workflow_id, args.ref, args.inputs),
+  }),
+  defineTool({
+    name: "rerun_failed_jobs",
+    description: "Re-run the failed jobs of a GitHub Actions workflow run",
+    toolset: "actions",
+    schema: RerunFailedJobsSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => rerunFailedJobs(args.owner, args.repo, args.run_id, args.enable_debug_logging),
+  }),
+  defineTool({
+    name: "cancel_workflow_run",
+    description: "Cancel a queued or in-progress GitHub Actions workflow run",
+    toolset: "actions",
+    schema: CancelWorkflowRunSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => cancelWorkflowRun(args.owner, args.repo, args.run_id),
+  }),
+  defineTool({
+    name: "list_workflow_run_artifacts",
+    description: "List the artifacts uploaded by a GitHub Actions workflow run",
+    toolset: "actions",
+    schema: ListWorkflowRunArtifactsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, run_id, ...options }) => listWorkflowRunArtifacts(owner, repo, run_id, options),
+  }),
+  defineTool({
+    name: "download_workflow_artifact",
+    description: "Download a GitHub Actions artifact and return the contents of its text files, such as test reports or coverage summaries",
+    toolset: "actions",
+    schema: DownloadWorkflowArtifactSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, artifact_id, ...options }) =>
+      downloadWorkflowArtifact(owner, repo, artifact_id, options),
+  }),
+  defineTool({
+    name: "get_job_logs",
+    description: "Get the log of a GitHub Actions job, trimmed to its last lines or to lines matching a pattern",
+    toolset: "actions",
+    schema: GetJobLogsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, job_id, ...options }) => getJobLogs(owner, repo, job_id, options),
+  }),
+];
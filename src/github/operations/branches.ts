@@ -1,6 +1,9 @@
 import { z } from "zod";
-import { githubRequest } from "../common/utils.js";
+import { checkBranchExists, githubRequest } from "../common/utils.js";
+import { GitHubConflictError, GitHubValidationError } from "../common/errors.js";
 import { GitHubReferenceSchema } from "../common/types.js";
+import { defineTool } from "../common/registry.js";
+import { getDefaultBranch } from "./repository.js";
 
 // Schema definitions
 export const CreateBranchOptionsSchema = z.object({
@@ -15,27 +18,49 @@ export const CreateBranchSchema = z.object({
   from_branch: z.string().optional().describe("Optional: source branch to create from (defaults to the repository's default branch)"),
 });
 
+export const RefUpdateOptionsSchema = z.object({
+  expected_head_sha: z.string().optional().describe("Only update the branch if it currently points at this commit SHA; cannot be combined with force"),
+  force: z.boolean().optional().describe("Force the update even if it is not a fast-forward, discarding commits on the branch (default: false); cannot be combined with expected_head_sha"),
+});
+
+export const UpdateBranchSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  branch: z.string().describe("Name of the branch to update"),
+  sha: z.string().describe("Commit SHA to point the branch at"),
+  ...RefUpdateOptionsSchema.shape,
+});
+
+// The branch endpoint reports protection to anyone with read access, unlike
+// the protection endpoints themselves, which need admin rights
+const BranchProtectionSummarySchema = z.object({
+  protected: z.boolean().optional(),
+  protection: z.object({
+    required_status_checks: z.object({
+      enforcement_level: z.string().optional(),
+      contexts: z.array(z.string()),
+      checks: z.array(z.object({
+        context: z.string(),
+        app_id: z.number().nullable().optional(),
+      })).optional(),
+    }).optional(),
+  }).optional(),
+});
+
 // Type exports
 export type CreateBranchOptions = z.infer<typeof CreateBranchOptionsSchema>;
+export type RefUpdateOptions = z.infer<typeof RefUpdateOptionsSchema>;
+
+export type RequiredStatusCheck = {
+  context: string;
+  // Only a check reported by this app satisfies the requirement, when set
+  app_id?: number;
+};
 
 // Function implementations
 export async function getDefaultBranchSHA(owner: string, repo: string): Promise<string> {
-  try {
-    const response = await githubRequest(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/main`
-    );
-    const data = GitHubReferenceSchema.parse(response);
-    return data.object.sha;
-  } catch (error) {
-    const masterResponse = await githubRequest(
-      `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/master`
-    );
-    if (!masterResponse) {
-      throw new Error("Could not find default branch (tried 'main' and 'master')");
-    }
-    const data = GitHubReferenceSchema.parse(masterResponse);
-    return data.object.sha;
-  }
+  const defaultBranch = await getDefaultBranch(owner, repo);
+  return getBranchSHA(owner, repo, defaultBranch);
 }
 
 export async function createBranch(
@@ -46,7 +71,7 @@ export async function createBranch(
   const fullRef = `refs/heads/${options.ref}`;
 
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs`,
+    `/repos/${owner}/${repo}/git/refs`,
     {
       method: "POST",
       body: {
@@ -65,13 +90,39 @@ export async function getBranchSHA(
   branch: string
 ): Promise<string> {
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branch}`
+    `/repos/${owner}/${repo}/git/refs/heads/${branch}`
   );
 
   const data = GitHubReferenceSchema.parse(response);
   return data.object.sha;
 }
 
+/**
+ * Returns the status checks branch protection requires before merging into
+ * a branch, or an empty list when the branch is unprotected.
+ */
+export async function getRequiredStatusChecks(
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<RequiredStatusCheck[]> {
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`
+  );
+  const required = BranchProtectionSummarySchema.parse(response).protection?.required_status_checks;
+  if (!required || required.enforcement_level === "off") {
+    return [];
+  }
+  if (required.checks) {
+    return required.checks.map(({ context, app_id }) => ({
+      context,
+      // -1 and null both mean any app may report the check
+      ...(app_id !== null && app_id !== undefined && app_id !== -1 ? { app_id } : {}),
+    }));
+  }
+  return required.contexts.map((context) => ({ context }));
+}
+
 export async function createBranchFromRef(
   owner: string,
   repo: string,
@@ -91,22 +142,100 @@ export async function createBranchFromRef(
   });
 }
 
+/**
+ * Creates a branch from `fromBranch` (or the default branch) unless it
+ * already exists, and reports whether it had to be created.
+ */
+export async function ensureBranch(
+  owner: string,
+  repo: string,
+  branch: string,
+  fromBranch?: string
+): Promise<boolean> {
+  if (await checkBranchExists(owner, repo, branch)) {
+    return false;
+  }
+  await createBranchFromRef(owner, repo, branch, fromBranch);
+  return true;
+}
+
+/**
+ * Rejects `force` combined with `expected_head_sha`. The REST API cannot
+ * compare and swap a ref, so the head is checked before a separate update;
+ * without force a commit pushed in between still fails the fast-forward
+ * check, but a forced update would silently discard it.
+ */
+export function assertRefUpdateOptions(options: RefUpdateOptions): void {
+  if (options.force && options.expected_head_sha) {
+    throw new Error(
+      "force cannot be combined with expected_head_sha: the head check is not atomic, so a forced update could discard commits pushed after it"
+    );
+  }
+}
+
+/**
+ * Moves a branch to a new commit. Unless `force` is set GitHub only accepts
+ * fast-forwards, so commits pushed by someone else are never discarded.
+ */
 export async function updateBranch(
   owner: string,
   repo: string,
   branch: string,
-  sha: string
+  sha: string,
+  options: RefUpdateOptions = {}
 ): Promise<z.infer<typeof GitHubReferenceSchema>> {
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branch}`,
-    {
-      method: "PATCH",
-      body: {
-        sha,
-        force: true,
-      },
+  assertRefUpdateOptions(options);
+  if (options.expected_head_sha) {
+    const currentSha = await getBranchSHA(owner, repo, branch);
+    if (currentSha !== options.expected_head_sha) {
+      throw new GitHubConflictError(
+        `Branch ${branch} is at ${currentSha}, not the expected ${options.expected_head_sha}`
+      );
     }
-  );
+  }
 
-  return GitHubReferenceSchema.parse(response);
+  try {
+    const response = await githubRequest(
+      `/repos/${owner}/${repo}/git/refs/heads/${branch}`,
+      {
+        method: "PATCH",
+        body: {
+          sha,
+          force: options.force ?? false,
+        },
+      }
+    );
+
+    return GitHubReferenceSchema.parse(response);
+  } catch (error) {
+    if (error instanceof GitHubValidationError && /fast.forward/i.test(error.message)) {
+      throw new GitHubConflictError(
+        `Branch ${branch} has commits that ${sha} does not contain; refusing a non-fast-forward update (set force to override)`
+      );
+    }
+    throw error;
+  }
 }
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "create_branch",
+    description: "Create a new branch in a GitHub repository",
+    toolset: "branches",
+    schema: CreateBranchSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => createBranchFromRef(args.owner, args.repo, args.branch, args.from_branch),
+  }),
+  defineTool({
+    name: "update_branch",
+    description: "Point an existing branch at another commit, fast-forward only unless forced",
+    toolset: "branches",
+    schema: UpdateBranchSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, branch, sha, ...options }) =>
+      updateBranch(owner, repo, branch, sha, options),
+  }),
+];
@@ -1,26 +1,244 @@
 import { z } from "zod";
-import { githubRequest, buildUrl } from "../common/utils.js";
+import { githubPaginate, githubRequest, buildUrl } from "../common/utils.js";
+import {
+  DiffLimits,
+  DiffLimitsSchema,
+  GitHubAuthorSchema,
+  PaginationOptions,
+  PaginationOptionsSchema,
+} from "../common/types.js";
+import { DEFAULT_MAX_DIFF_BYTES, limitFilePatches, truncateDiff } from "../common/diff.js";
+import { defineTool } from "../common/registry.js";
+
+export const CommitFileSchema = z.object({
+  filename: z.string(),
+  status: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+  changes: z.number(),
+  previous_filename: z.string().optional(),
+  patch: z.string().optional(),
+});
+
+const CommitSummarySchema = z.object({
+  sha: z.string(),
+  html_url: z.string(),
+  commit: z.object({
+    author: GitHubAuthorSchema.nullable(),
+    message: z.string(),
+  }),
+  author: z.object({ login: z.string() }).nullable(),
+});
+
+export const CommitDetailSchema = z.object({
+  sha: z.string(),
+  html_url: z.string(),
+  commit: z.object({
+    author: GitHubAuthorSchema.nullable(),
+    committer: GitHubAuthorSchema.nullable(),
+    message: z.string(),
+    verification: z.object({
+      verified: z.boolean(),
+      reason: z.string(),
+    }).optional(),
+  }),
+  author: z.object({ login: z.string() }).nullable(),
+  committer: z.object({ login: z.string() }).nullable(),
+  parents: z.array(z.object({ sha: z.string() })),
+  stats: z.object({
+    additions: z.number(),
+    deletions: z.number(),
+    total: z.number(),
+  }).optional(),
+  files: z.array(CommitFileSchema).optional(),
+});
+
+export const ComparisonSchema = z.object({
+  status: z.enum(["diverged", "ahead", "behind", "identical"]),
+  ahead_by: z.number(),
+  behind_by: z.number(),
+  total_commits: z.number(),
+  html_url: z.string(),
+  merge_base_commit: z.object({ sha: z.string() }),
+  commits: z.array(CommitSummarySchema),
+  files: z.array(CommitFileSchema).optional(),
+});
 
 export const ListCommitsSchema = z.object({
   owner: z.string(),
   repo: z.string(),
   sha: z.string().optional(),
+  path: z.string().optional().describe("Only commits that touch this file or directory"),
+  author: z.string().optional().describe("Only commits by this GitHub login or email address"),
+  since: z.string().optional().describe("Only commits after this ISO 8601 timestamp"),
+  until: z.string().optional().describe("Only commits before this ISO 8601 timestamp"),
   page: z.number().optional(),
-  perPage: z.number().optional()
+  perPage: z.number().optional(),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const GetCommitSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  ref: z.string().describe("Commit SHA, branch or tag"),
+  include_diff: z.boolean().optional().describe("Also return the raw unified diff (default: false)"),
+  max_diff_bytes: z.number().int().positive().optional().describe("Cut the raw diff after this many bytes (default: 100000)"),
+  ...DiffLimitsSchema.shape,
 });
 
+export const CompareRefsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  base: z.string().describe("Base branch, tag or commit SHA"),
+  head: z.string().describe("Head branch, tag or commit SHA, compared against base"),
+  include_diff: z.boolean().optional().describe("Also return the raw unified diff (default: false)"),
+  max_diff_bytes: z.number().int().positive().optional().describe("Cut the raw diff after this many bytes (default: 100000)"),
+  ...DiffLimitsSchema.shape,
+});
+
+export type CommitFilters = Pick<z.infer<typeof ListCommitsSchema>, "path" | "author" | "since" | "until">;
+
 export async function listCommits(
   owner: string,
   repo: string,
   page?: number,
   perPage?: number,
-  sha?: string
+  sha?: string,
+  pagination: PaginationOptions = {},
+  filters: CommitFilters = {}
 ) {
-  return githubRequest(
-    buildUrl(`https://api.github.com/repos/${owner}/${repo}/commits`, {
+  return githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/commits`, {
       page: page?.toString(),
       per_page: perPage?.toString(),
-      sha
-    })
+      sha,
+      path: filters.path,
+      author: filters.author,
+      since: filters.since,
+      until: filters.until,
+    }),
+    pagination
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Resolves a branch, tag or commit SHA to the SHA of the commit it names.
+ */
+export async function resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/commits/${ref}`, {
+    headers: { Accept: "application/vnd.github.sha" },
+  });
+  return String(response).trim();
+}
+
+type RawDiffOptions = Pick<z.infer<typeof CompareRefsSchema>, "max_diff_bytes" | keyof DiffLimits>;
+
+async function getRawDiff(path: string, options: RawDiffOptions) {
+  const raw = await githubRequest(path, {
+    headers: { Accept: "application/vnd.github.diff" },
+  });
+  return truncateDiff(String(raw), options, options.max_diff_bytes ?? DEFAULT_MAX_DIFF_BYTES);
+}
+
+/**
+ * Gets one commit with its verification status, parents, stats and changed
+ * files. GitHub lists at most 300 files for a single commit.
+ */
+export async function getCommit(
+  owner: string,
+  repo: string,
+  ref: string,
+  options: Omit<z.infer<typeof GetCommitSchema>, 'owner' | 'repo' | 'ref'> = {}
+) {
+  const path = `/repos/${owner}/${repo}/commits/${ref}`;
+  const commit = CommitDetailSchema.parse(await githubRequest(path));
+  const { files, files_truncated } = limitFilePatches(commit.files ?? [], options);
+  const diff = options.include_diff ? await getRawDiff(path, options) : undefined;
+
+  return {
+    sha: commit.sha,
+    html_url: commit.html_url,
+    message: commit.commit.message,
+    author: commit.commit.author,
+    author_login: commit.author?.login ?? null,
+    committer: commit.commit.committer,
+    committer_login: commit.committer?.login ?? null,
+    verification: commit.commit.verification ?? null,
+    parents: commit.parents.map((parent) => parent.sha),
+    stats: commit.stats ?? null,
+    files,
+    files_truncated,
+    ...(diff ? { diff: diff.diff, diff_truncated: diff.truncated } : {}),
+  };
+}
+
+/**
+ * Compares two refs through their merge base, like `git diff base...head`.
+ * GitHub lists at most 250 commits and 300 files for a comparison.
+ */
+export async function compareRefs(
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  options: Omit<z.infer<typeof CompareRefsSchema>, 'owner' | 'repo' | 'base' | 'head'> = {}
+) {
+  const path = `/repos/${owner}/${repo}/compare/${base}...${head}`;
+  const comparison = ComparisonSchema.parse(await githubRequest(path));
+  const { files, files_truncated } = limitFilePatches(comparison.files ?? [], options);
+
+  const diff = options.include_diff ? await getRawDiff(path, options) : undefined;
+
+  return {
+    base,
+    head,
+    status: comparison.status,
+    ahead_by: comparison.ahead_by,
+    behind_by: comparison.behind_by,
+    merge_base_sha: comparison.merge_base_commit.sha,
+    html_url: comparison.html_url,
+    total_commits: comparison.total_commits,
+    commits: comparison.commits.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author,
+      author_login: commit.author?.login ?? null,
+      html_url: commit.html_url,
+    })),
+    commits_truncated: comparison.commits.length < comparison.total_commits,
+    files,
+    files_truncated,
+    ...(diff ? { diff: diff.diff, diff_truncated: diff.truncated } : {}),
+  };
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "list_commits",
+    description: "Get list of commits of a branch in a GitHub repository, optionally filtered by path, author and date range",
+    toolset: "commits",
+    schema: ListCommitsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => listCommits(args.owner, args.repo, args.page, args.perPage, args.sha, args, args),
+  }),
+  defineTool({
+    name: "get_commit",
+    description: "Get a single commit with its author, committer, signature verification, parents, stats and changed files with patches",
+    toolset: "commits",
+    schema: GetCommitSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ref, ...options }) => getCommit(owner, repo, ref, options),
+  }),
+  defineTool({
+    name: "compare_refs",
+    description: "Compare two branches, tags or commits: ahead/behind counts, the commits between them, changed files and optionally the unified diff",
+    toolset: "commits",
+    schema: CompareRefsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, base, head, ...options }) => compareRefs(owner, repo, base, head, options),
+  }),
+];
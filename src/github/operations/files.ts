@@ -1,18 +1,52 @@
+import { extname } from "node:path";
 import { z } from "zod";
-import { githubRequest } from "../common/utils.js";
+import { githubRequest, isBinaryContent } from "../common/utils.js";
 import {
-  GitHubContentSchema,
+  GitHubConflictError,
+  GitHubResourceNotFoundError,
+  GitHubValidationError,
+} from "../common/errors.js";
+import {
+  GitHubContentObjectSchema,
   GitHubAuthorSchema,
   GitHubTreeSchema,
+  GitHubTreeEntry,
   GitHubCommitSchema,
-  GitHubReferenceSchema,
   GitHubFileContentSchema,
 } from "../common/types.js";
+import { ToolContentResult, defineTool } from "../common/registry.js";
+import { matchesAnyGlob } from "../common/glob.js";
+import {
+  assertRefUpdateOptions,
+  ensureBranch,
+  getBranchSHA,
+  updateBranch,
+  RefUpdateOptionsSchema,
+} from "./branches.js";
+import { resolveCommitSha } from "./commits.js";
+import { getDefaultBranch } from "./repository.js";
 
 // Schema definitions
+export const FileModeSchema = z.enum(["100644", "100755", "120000"]);
+
 export const FileOperationSchema = z.object({
-  path: z.string(),
-  content: z.string(),
+  path: z.string().describe("Path of the file; for renames, the new path"),
+  operation: z.enum(["upsert", "delete", "rename"]).optional().describe("What to do with the file (default: upsert)"),
+  content: z.string().optional().describe("New file content; required for upserts, optional for renames"),
+  encoding: z.enum(["utf-8", "base64"]).optional().describe("Encoding of content (default: utf-8); use base64 for binary files"),
+  mode: FileModeSchema.optional().describe("File mode: 100644 (regular), 100755 (executable) or 120000 (symlink, content is the link target)"),
+  previous_path: z.string().optional().describe("For renames: the current path of the file"),
+}).superRefine((file, ctx) => {
+  const operation = file.operation ?? "upsert";
+  if (operation === "upsert" && file.content === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message: "content is required for upserts" });
+  }
+  if (operation === "delete" && file.content !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message: "content cannot be given for deletions" });
+  }
+  if (operation === "rename" && !file.previous_path) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["previous_path"], message: "previous_path is required for renames" });
+  }
 });
 
 export const CreateOrUpdateFileSchema = z.object({
@@ -21,23 +55,64 @@ export const CreateOrUpdateFileSchema = z.object({
   path: z.string().describe("Path where to create/update the file"),
   content: z.string().describe("Content of the file"),
   message: z.string().describe("Commit message"),
-  branch: z.string().describe("Branch to create/update the file in"),
+  branch: z.string().describe("Branch to create/update the file in; created if it does not exist"),
+  from_branch: z.string().optional().describe("Branch to create branch from if it does not exist (defaults to the repository's default branch)"),
   sha: z.string().optional().describe("SHA of the file being replaced (required when updating existing files)"),
 });
 
+export const DeleteFileSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  path: z.string().describe("Path of the file to delete"),
+  message: z.string().describe("Commit message"),
+  branch: z.string().describe("Branch to delete the file from; created if it does not exist"),
+  from_branch: z.string().optional().describe("Branch to create branch from if it does not exist (defaults to the repository's default branch)"),
+  sha: z.string().optional().describe("SHA of the file being deleted (looked up when omitted)"),
+});
+
+export const MoveFileSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  from_path: z.string().describe("Current path of the file"),
+  to_path: z.string().describe("New path of the file"),
+  message: z.string().describe("Commit message"),
+  branch: z.string().describe("Branch to move the file in; created if it does not exist"),
+  from_branch: z.string().optional().describe("Branch to create branch from if it does not exist (defaults to the repository's default branch)"),
+  ...RefUpdateOptionsSchema.shape,
+});
+
 export const GetFileContentsSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
   path: z.string().describe("Path to the file or directory"),
-  branch: z.string().optional().describe("Branch to get contents from"),
+  ref: z.string().optional().describe("Branch, tag or commit SHA to read from (defaults to the default branch)"),
+  branch: z.string().optional().describe("Deprecated alias for ref"),
+  start_line: z.number().int().positive().optional().describe("For text files: first line to return (1-based)"),
+  end_line: z.number().int().positive().optional().describe("For text files: last line to return (inclusive)"),
+  byte_offset: z.number().int().nonnegative().optional().describe("Return content starting at this byte instead of the whole file"),
+  byte_length: z.number().int().positive().optional().describe("Return at most this many bytes"),
 });
 
 export const PushFilesSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
-  branch: z.string().describe("Branch to push to (e.g., 'main' or 'master')"),
+  branch: z.string().describe("Branch to push to (e.g., 'main' or 'master'); created if it does not exist"),
+  from_branch: z.string().optional().describe("Branch to create branch from if it does not exist (defaults to the repository's default branch)"),
   files: z.array(FileOperationSchema).describe("Array of files to push"),
   message: z.string().describe("Commit message"),
+  ...RefUpdateOptionsSchema.shape,
+  rebase_on_conflict: z.boolean().optional().describe("If the branch moves while pushing, re-apply the files on its new head and retry (default: false)"),
+});
+
+export const GetRepositoryTreeSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  ref: z.string().optional().describe("Branch, tag or commit SHA to list (defaults to the default branch)"),
+  path: z.string().optional().describe("Directory to list instead of the repository root"),
+  include: z.array(z.string()).optional().describe("Only list paths matching one of these globs (e.g. '**/*.ts', 'package.json')"),
+  exclude: z.array(z.string()).optional().describe("Leave out paths matching one of these globs (e.g. 'node_modules/**')"),
+  max_depth: z.number().int().positive().optional().describe("Only list entries at most this many levels below the listed directory"),
+  max_entries: z.number().int().positive().optional().describe("Return at most this many entries (default: 1000)"),
 });
 
 export const GitHubCreateUpdateFileResponseSchema = z.object({
@@ -65,30 +140,234 @@ export const GitHubCreateUpdateFileResponseSchema = z.object({
 });
 
 // Type exports
+export type FileMode = z.infer<typeof FileModeSchema>;
 export type FileOperation = z.infer<typeof FileOperationSchema>;
+export type PushOptions = Pick<
+  z.infer<typeof PushFilesSchema>,
+  "from_branch" | "expected_head_sha" | "force" | "rebase_on_conflict"
+>;
 export type GitHubCreateUpdateFileResponse = z.infer<typeof GitHubCreateUpdateFileResponseSchema>;
+export type FileRange = Pick<
+  z.infer<typeof GetFileContentsSchema>,
+  "start_line" | "end_line" | "byte_offset" | "byte_length"
+>;
 
 // Function implementations
+const IMAGE_TYPES: Record<string, string> = {
+  ".gif": "image/gif",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+// Larger files are only returned a line or byte range at a time
+const MAX_CONTENT_BYTES = 1_000_000;
+
+/**
+ * Fetches a file or directory from the contents API. Without the object media
+ * type GitHub Enterprise Server refuses files over 1 MB with a `too_large`
+ * 403 instead of returning their metadata.
+ */
+async function fetchContents(owner: string, repo: string, path: string, ref?: string) {
+  let url = `/repos/${owner}/${repo}/contents/${path}`;
+  if (ref) {
+    url += `?ref=${encodeURIComponent(ref)}`;
+  }
+  const response = await githubRequest(url, {
+    headers: { Accept: "application/vnd.github.object" },
+  });
+  return GitHubContentObjectSchema.parse(response);
+}
+
+/**
+ * Reads a file's raw bytes. The contents API only inlines files up to 1 MB;
+ * above that it returns no content and the blobs API serves up to 100 MB.
+ */
+async function readFileBytes(
+  owner: string,
+  repo: string,
+  file: z.infer<typeof GitHubFileContentSchema>
+): Promise<Buffer> {
+  if (file.encoding !== "none" && (file.content || file.size === 0)) {
+    return Buffer.from(file.content ?? "", "base64");
+  }
+  const response = await githubRequest(`/repos/${owner}/${repo}/git/blobs/${file.sha}`);
+  const blob = z.object({ content: z.string(), encoding: z.string() }).parse(response);
+  return Buffer.from(blob.content, blob.encoding === "base64" ? "base64" : "utf8");
+}
+
+function splitLines(text: string): { lines: string[]; totalLines: number } {
+  const lines = text.split("\n");
+  // A trailing newline ends the last line rather than starting a new one
+  return { lines, totalLines: lines[lines.length - 1] === "" ? lines.length - 1 : lines.length };
+}
+
+function selectLines(text: string, startLine?: number, endLine?: number) {
+  const { lines, totalLines } = splitLines(text);
+  const start = startLine ?? 1;
+  if (start > totalLines) {
+    throw new Error(`start_line ${start} is past the end of the file (total_lines: ${totalLines})`);
+  }
+  const end = Math.min(endLine ?? totalLines, totalLines);
+  return {
+    content: lines.slice(start - 1, end).join("\n"),
+    range: { start_line: start, end_line: end, total_lines: totalLines },
+  };
+}
+
+/**
+ * Gets a directory listing, or a file's contents decoded as UTF-8 text.
+ * Binary files come back base64 encoded, and images as image content the
+ * client can display. A line or byte range limits how much is returned.
+ */
 export async function getFileContents(
   owner: string,
   repo: string,
   path: string,
-  branch?: string
+  ref?: string,
+  range: FileRange = {}
 ) {
-  let url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-  if (branch) {
-    url += `?ref=${branch}`;
+  const byLines = range.start_line !== undefined || range.end_line !== undefined;
+  const byBytes = range.byte_offset !== undefined || range.byte_length !== undefined;
+  if (byLines && byBytes) {
+    throw new Error("Use either start_line/end_line or byte_offset/byte_length, not both");
+  }
+  if (range.start_line !== undefined && range.end_line !== undefined && range.end_line < range.start_line) {
+    throw new Error("end_line must not be before start_line");
+  }
+
+  const data = await fetchContents(owner, repo, path, ref);
+  if ("entries" in data) {
+    return data.entries;
   }
 
-  const response = await githubRequest(url);
-  const data = GitHubContentSchema.parse(response);
+  const { content: _content, encoding: _encoding, ...file } = data;
+  let bytes = await readFileBytes(owner, repo, data);
+  const binary = isBinaryContent(bytes);
 
-  // If it's a file, decode the content
-  if (!Array.isArray(data) && data.content) {
-    data.content = Buffer.from(data.content, "base64").toString("utf8");
+  if (byBytes) {
+    const offset = range.byte_offset ?? 0;
+    const sliced = bytes.subarray(offset, range.byte_length === undefined ? undefined : offset + range.byte_length);
+    const byteRange = { byte_offset: offset, byte_length: sliced.length, total_bytes: bytes.length };
+    bytes = sliced;
+    if (bytes.length > MAX_CONTENT_BYTES) {
+      throw new Error(`Byte ranges are limited to ${MAX_CONTENT_BYTES} bytes; set byte_length to at most that`);
+    }
+    if (!binary) {
+      // A range can split a multi-byte character; the decoder replaces the partial bytes
+      return { ...file, encoding: "utf-8", content: bytes.toString("utf8"), range: byteRange };
+    }
+    return { ...file, encoding: "base64", content: bytes.toString("base64"), range: byteRange };
+  }
+
+  if (!binary) {
+    const text = bytes.toString("utf8");
+    if (byLines) {
+      const selected = selectLines(text, range.start_line, range.end_line);
+      if (Buffer.byteLength(selected.content) > MAX_CONTENT_BYTES) {
+        throw new Error(
+          `Lines ${selected.range.start_line}-${selected.range.end_line} are over ${MAX_CONTENT_BYTES} bytes; request fewer lines at a time`
+        );
+      }
+      return { ...file, encoding: "utf-8", ...selected };
+    }
+    if (bytes.length > MAX_CONTENT_BYTES) {
+      const { totalLines } = splitLines(text);
+      return {
+        ...file,
+        encoding: "utf-8",
+        total_lines: totalLines,
+        note: `File of ${bytes.length} bytes is too large to return at once; read it in pieces with start_line and end_line (up to ${MAX_CONTENT_BYTES} bytes each)`,
+      };
+    }
+    return { ...file, encoding: "utf-8", content: text };
+  }
+
+  if (byLines) {
+    throw new Error(`${path} is a binary file; use byte_offset/byte_length instead of lines`);
+  }
+  if (bytes.length > MAX_CONTENT_BYTES) {
+    return {
+      ...file,
+      encoding: "base64",
+      note: `Binary file of ${bytes.length} bytes is too large to return at once; read it in pieces with byte_offset and byte_length (up to ${MAX_CONTENT_BYTES} bytes each)`,
+    };
+  }
+
+  const mimeType = IMAGE_TYPES[extname(path).toLowerCase()];
+  if (mimeType) {
+    return new ToolContentResult([
+      { type: "text", text: JSON.stringify({ ...file, encoding: "base64", mime_type: mimeType }, null, 2) },
+      { type: "image", data: bytes.toString("base64"), mimeType },
+    ]);
+  }
+  return { ...file, encoding: "base64", content: bytes.toString("base64") };
+}
+
+const DEFAULT_MAX_TREE_ENTRIES = 1000;
+
+/**
+ * Lists a directory recursively with the git trees API. Globs and depth are
+ * matched against paths relative to the listed directory, while returned
+ * paths are relative to the repository root.
+ */
+export async function getRepositoryTree(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof GetRepositoryTreeSchema>, 'owner' | 'repo'> = {}
+) {
+  const ref = options.ref ?? await getDefaultBranch(owner, repo);
+  const commitSha = await resolveCommitSha(owner, repo, ref);
+  const directory = options.path?.replace(/^\/+|\/+$/g, "") || undefined;
+
+  let treeSha = commitSha;
+  if (directory) {
+    const entry = await getTreeEntry(owner, repo, commitSha, directory);
+    if (!entry || entry.type !== "tree") {
+      throw new GitHubResourceNotFoundError(`Directory ${directory} at ${ref}`);
+    }
+    treeSha = entry.sha;
   }
 
-  return data;
+  const response = await githubRequest(`/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`);
+  const tree = GitHubTreeSchema.parse(response);
+
+  const matching = tree.tree.filter((entry) =>
+    (options.max_depth === undefined || entry.path.split("/").length <= options.max_depth)
+      && (options.include === undefined || matchesAnyGlob(entry.path, options.include))
+      && (options.exclude === undefined || !matchesAnyGlob(entry.path, options.exclude))
+  );
+  const maxEntries = options.max_entries ?? DEFAULT_MAX_TREE_ENTRIES;
+
+  return {
+    ref,
+    commit_sha: commitSha,
+    path: directory ?? "",
+    tree_sha: tree.sha,
+    total_entries: matching.length,
+    entries: matching.slice(0, maxEntries).map(({ path, type, mode, size, sha }) => ({
+      path: directory ? `${directory}/${path}` : path,
+      type,
+      mode,
+      ...(size !== undefined ? { size } : {}),
+      sha,
+    })),
+    truncated: matching.length > maxEntries || tree.truncated,
+    // GitHub caps recursive trees at 100,000 entries or 7 MB
+    ...(tree.truncated
+      ? { note: "GitHub truncated this tree because it is too large; list a subdirectory with path to see everything below it" }
+      : {}),
+  };
+}
+
+// Only the metadata is needed, so this skips decoding (and fetching large blobs)
+async function getFileSha(owner: string, repo: string, path: string, ref: string): Promise<string> {
+  const data = await fetchContents(owner, repo, path, ref);
+  if ("entries" in data) {
+    throw new GitHubValidationError(`${path} is a directory, not a file`, 422, { path });
+  }
+  return data.sha;
 }
 
 export async function createOrUpdateFile(
@@ -98,23 +377,22 @@ export async function createOrUpdateFile(
   content: string,
   message: string,
   branch: string,
-  sha?: string
+  sha?: string,
+  fromBranch?: string
 ) {
   const encodedContent = Buffer.from(content).toString("base64");
+  const branchCreated = await ensureBranch(owner, repo, branch, fromBranch);
 
   let currentSha = sha;
   if (!currentSha) {
     try {
-      const existingFile = await getFileContents(owner, repo, path, branch);
-      if (!Array.isArray(existingFile)) {
-        currentSha = existingFile.sha;
-      }
+      currentSha = await getFileSha(owner, repo, path, branch);
     } catch (error) {
       console.error("Note: File does not exist in branch, will create new file");
     }
   }
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
+  const url = `/repos/${owner}/${repo}/contents/${path}`;
   const body = {
     message,
     content: encodedContent,
@@ -127,7 +405,144 @@ export async function createOrUpdateFile(
     body,
   });
 
-  return GitHubCreateUpdateFileResponseSchema.parse(response);
+  return {
+    ...GitHubCreateUpdateFileResponseSchema.parse(response),
+    branch_created: branchCreated,
+  };
+}
+
+export async function deleteFile(
+  owner: string,
+  repo: string,
+  path: string,
+  message: string,
+  branch: string,
+  sha?: string,
+  fromBranch?: string
+) {
+  const branchCreated = await ensureBranch(owner, repo, branch, fromBranch);
+  const currentSha = sha ?? await getFileSha(owner, repo, path, branch);
+
+  const response = await githubRequest(`/repos/${owner}/${repo}/contents/${path}`, {
+    method: "DELETE",
+    body: {
+      message,
+      sha: currentSha,
+      branch,
+    },
+  });
+
+  return {
+    ...GitHubCreateUpdateFileResponseSchema.parse(response),
+    branch_created: branchCreated,
+  };
+}
+
+type TreeEntryInput = {
+  path: string;
+  mode: FileMode;
+  type: "blob";
+  sha?: string | null;
+  content?: string;
+};
+
+async function createBlob(
+  owner: string,
+  repo: string,
+  content: string,
+  encoding: "utf-8" | "base64"
+): Promise<string> {
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/git/blobs`,
+    {
+      method: "POST",
+      body: { content, encoding },
+    }
+  );
+
+  return z.object({ sha: z.string() }).parse(response).sha;
+}
+
+async function getTreeEntry(
+  owner: string,
+  repo: string,
+  treeSha: string,
+  path: string
+): Promise<GitHubTreeEntry | undefined> {
+  const segments = path.split("/").filter(Boolean);
+  let current = treeSha;
+
+  for (const [index, segment] of segments.entries()) {
+    const response = await githubRequest(`/repos/${owner}/${repo}/git/trees/${current}`);
+    const entry = GitHubTreeSchema.parse(response).tree.find((item) => item.path === segment);
+    if (!entry || index === segments.length - 1) {
+      return entry;
+    }
+    if (entry.type !== "tree") {
+      return undefined;
+    }
+    current = entry.sha;
+  }
+
+  return undefined;
+}
+
+// Inline UTF-8 content directly in the tree; binary content must be uploaded as a blob first
+async function blobSource(
+  owner: string,
+  repo: string,
+  content: string,
+  encoding: "utf-8" | "base64" = "utf-8"
+): Promise<Pick<TreeEntryInput, "sha" | "content">> {
+  if (encoding === "base64") {
+    return { sha: await createBlob(owner, repo, content, encoding) };
+  }
+  return { content };
+}
+
+async function toTreeEntries(
+  owner: string,
+  repo: string,
+  file: FileOperation,
+  baseTree?: string
+): Promise<TreeEntryInput[]> {
+  switch (file.operation ?? "upsert") {
+    case "delete":
+      return [{ path: file.path, mode: file.mode ?? "100644", type: "blob", sha: null }];
+
+    case "rename": {
+      const previousPath = file.previous_path!;
+      const previous = baseTree
+        ? await getTreeEntry(owner, repo, baseTree, previousPath)
+        : undefined;
+      if (!previous) {
+        throw new GitHubResourceNotFoundError(`File ${previousPath}`);
+      }
+      if (previous.type !== "blob") {
+        throw new GitHubValidationError(
+          `Cannot rename ${previousPath}: only files can be renamed`,
+          422,
+          { path: previousPath, type: previous.type }
+        );
+      }
+
+      const source = file.content !== undefined
+        ? await blobSource(owner, repo, file.content, file.encoding)
+        : { sha: previous.sha };
+      return [
+        { path: previousPath, mode: previous.mode as FileMode, type: "blob", sha: null },
+        { path: file.path, mode: file.mode ?? previous.mode as FileMode, type: "blob", ...source },
+      ];
+    }
+
+    case "upsert":
+      return [{
+        path: file.path,
+        mode: file.mode ?? "100644",
+        type: "blob",
+        ...await blobSource(owner, repo, file.content!, file.encoding),
+      }];
+  }
 }
 
 async function createTree(
@@ -136,15 +551,13 @@ async function createTree(
   files: FileOperation[],
   baseTree?: string
 ) {
-  const tree = files.map((file) => ({
-    path: file.path,
-    mode: "100644" as const,
-    type: "blob" as const,
-    content: file.content,
-  }));
+  const tree: TreeEntryInput[] = [];
+  for (const file of files) {
+    tree.push(...await toTreeEntries(owner, repo, file, baseTree));
+  }
 
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/trees`,
+    `/repos/${owner}/${repo}/git/trees`,
     {
       method: "POST",
       body: {
@@ -165,7 +578,7 @@ async function createCommit(
   parents: string[]
 ) {
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/commits`,
+    `/repos/${owner}/${repo}/git/commits`,
     {
       method: "POST",
       body: {
@@ -179,24 +592,39 @@ async function createCommit(
   return GitHubCommitSchema.parse(response);
 }
 
-async function updateReference(
+// Attempts made by push_files when rebase_on_conflict is set
+const PUSH_REBASE_ATTEMPTS = 3;
+
+async function commitFiles(
   owner: string,
   repo: string,
-  ref: string,
-  sha: string
+  branch: string,
+  files: FileOperation[],
+  message: string,
+  options: PushOptions
 ) {
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs/${ref}`,
-    {
-      method: "PATCH",
-      body: {
-        sha,
-        force: true,
-      },
+  assertRefUpdateOptions(options);
+  const attempts = options.rebase_on_conflict ? PUSH_REBASE_ATTEMPTS : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const commitSha = await getBranchSHA(owner, repo, branch);
+    if (attempt === 1 && options.expected_head_sha && commitSha !== options.expected_head_sha) {
+      throw new GitHubConflictError(
+        `Branch ${branch} is at ${commitSha}, not the expected ${options.expected_head_sha}`
+      );
     }
-  );
 
-  return GitHubReferenceSchema.parse(response);
+    const tree = await createTree(owner, repo, files, commitSha);
+    const commit = await createCommit(owner, repo, message, tree.sha, [commitSha]);
+    try {
+      return await updateBranch(owner, repo, branch, commit.sha, { force: options.force });
+    } catch (error) {
+      if (!(error instanceof GitHubConflictError) || attempt >= attempts) {
+        throw error;
+      }
+      console.error(`Note: ${branch} moved while pushing, re-applying files on its new head`);
+    }
+  }
 }
 
 export async function pushFiles(
@@ -204,16 +632,133 @@ export async function pushFiles(
   repo: string,
   branch: string,
   files: FileOperation[],
-  message: string
+  message: string,
+  options: PushOptions = {}
 ) {
-  const refResponse = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${branch}`
-  );
+  const branchCreated = await ensureBranch(owner, repo, branch, options.from_branch);
+  const ref = await commitFiles(owner, repo, branch, files, message, options);
+  return { ...ref, branch_created: branchCreated };
+}
 
-  const ref = GitHubReferenceSchema.parse(refResponse);
-  const commitSha = ref.object.sha;
+/**
+ * Renames a file in a single commit through the git trees API, keeping its
+ * blob and mode. Refuses to replace a file already at the new path.
+ */
+export async function moveFile(
+  owner: string,
+  repo: string,
+  fromPath: string,
+  toPath: string,
+  message: string,
+  branch: string,
+  options: Omit<PushOptions, "rebase_on_conflict"> = {}
+) {
+  const branchCreated = await ensureBranch(owner, repo, branch, options.from_branch);
+  const headSha = await getBranchSHA(owner, repo, branch);
+  if (await getTreeEntry(owner, repo, headSha, toPath)) {
+    throw new GitHubConflictError(`${toPath} already exists on ${branch}`);
+  }
 
-  const tree = await createTree(owner, repo, files, commitSha);
-  const commit = await createCommit(owner, repo, message, tree.sha, [commitSha]);
-  return await updateReference(owner, repo, `heads/${branch}`, commit.sha);
+  const ref = await commitFiles(
+    owner,
+    repo,
+    branch,
+    [{ operation: "rename", path: toPath, previous_path: fromPath }],
+    message,
+    {
+      // A forced move cannot also check the head it saw (see assertRefUpdateOptions)
+      expected_head_sha: options.expected_head_sha ?? (options.force ? undefined : headSha),
+      force: options.force,
+    }
+  );
+  return { ...ref, branch_created: branchCreated };
 }
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "create_or_update_file",
+    description: "Create or update a single file in a GitHub repository",
+    toolset: "files",
+    schema: CreateOrUpdateFileSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => createOrUpdateFile(
+      args.owner,
+      args.repo,
+      args.path,
+      args.content,
+      args.message,
+      args.branch,
+      args.sha,
+      args.from_branch
+    ),
+  }),
+  defineTool({
+    name: "delete_file",
+    description: "Delete a single file from a GitHub repository",
+    toolset: "files",
+    schema: DeleteFileSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => deleteFile(
+      args.owner,
+      args.repo,
+      args.path,
+      args.message,
+      args.branch,
+      args.sha,
+      args.from_branch
+    ),
+  }),
+  defineTool({
+    name: "move_file",
+    description: "Move or rename a single file in a GitHub repository in one commit",
+    toolset: "files",
+    schema: MoveFileSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => moveFile(
+      args.owner,
+      args.repo,
+      args.from_path,
+      args.to_path,
+      args.message,
+      args.branch,
+      args
+    ),
+  }),
+  defineTool({
+    name: "get_file_contents",
+    description: "Get the contents of a file or directory from a GitHub repository at any branch, tag or commit. Text files can be read by line range; binary files come back base64 encoded and images as image content",
+    toolset: "files",
+    schema: GetFileContentsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) =>
+      getFileContents(args.owner, args.repo, args.path, args.ref ?? args.branch, {
+        start_line: args.start_line,
+        end_line: args.end_line,
+        byte_offset: args.byte_offset,
+        byte_length: args.byte_length,
+      }),
+  }),
+  defineTool({
+    name: "get_repository_tree",
+    description: "List the files and directories of a repository recursively, with glob filters and a depth limit",
+    toolset: "files",
+    schema: GetRepositoryTreeSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => getRepositoryTree(owner, repo, options),
+  }),
+  defineTool({
+    name: "push_files",
+    description: "Push multiple files to a GitHub repository in a single commit",
+    toolset: "files",
+    schema: PushFilesSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => pushFiles(args.owner, args.repo, args.branch, args.files, args.message, args),
+  }),
+];
@@ -1,5 +1,7 @@
 import { z } from "zod";
-import { githubRequest, buildUrl } from "../common/utils.js";
+import { githubRequest, githubPaginate, buildUrl } from "../common/utils.js";
+import { PaginationOptionsSchema } from "../common/types.js";
+import { defineTool } from "../common/registry.js";
 
 export const GetIssueSchema = z.object({
   owner: z.string(),
@@ -38,6 +40,7 @@ export const ListIssuesOptionsSchema = z.object({
   since: z.string().optional(),
   sort: z.enum(["created", "updated", "comments"]).optional(),
   state: z.enum(["open", "closed", "all"]).optional(),
+  ...PaginationOptionsSchema.shape,
 });
 
 export const UpdateIssueOptionsSchema = z.object({
@@ -53,7 +56,7 @@ export const UpdateIssueOptionsSchema = z.object({
 });
 
 export async function getIssue(owner: string, repo: string, issue_number: number) {
-  return githubRequest(`https://api.github.com/repos/${owner}/${repo}/issues/${issue_number}`);
+  return githubRequest(`/repos/${owner}/${repo}/issues/${issue_number}`);
 }
 
 export async function addIssueComment(
@@ -62,7 +65,7 @@ export async function addIssueComment(
   issue_number: number,
   body: string
 ) {
-  return githubRequest(`https://api.github.com/repos/${owner}/${repo}/issues/${issue_number}/comments`, {
+  return githubRequest(`/repos/${owner}/${repo}/issues/${issue_number}/comments`, {
     method: "POST",
     body: { body },
   });
@@ -74,7 +77,7 @@ export async function createIssue(
   options: z.infer<typeof CreateIssueOptionsSchema>
 ) {
   return githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/issues`,
+    `/repos/${owner}/${repo}/issues`,
     {
       method: "POST",
       body: options,
@@ -97,8 +100,9 @@ export async function listIssues(
     state: options.state
   };
 
-  return githubRequest(
-    buildUrl(`https://api.github.com/repos/${owner}/${repo}/issues`, urlParams)
+  return githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/issues`, urlParams),
+    options
   );
 }
 
@@ -109,10 +113,60 @@ export async function updateIssue(
   options: Omit<z.infer<typeof UpdateIssueOptionsSchema>, "owner" | "repo" | "issue_number">
 ) {
   return githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/issues/${issue_number}`,
+    `/repos/${owner}/${repo}/issues/${issue_number}`,
     {
       method: "PATCH",
       body: options,
     }
   );
-}
\ No newline at end of file
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "create_issue",
+    description: "Create a new issue in a GitHub repository",
+    toolset: "issues",
+    schema: CreateIssueSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => createIssue(owner, repo, options),
+  }),
+  defineTool({
+    name: "list_issues",
+    description: "List issues in a GitHub repository with filtering options",
+    toolset: "issues",
+    schema: ListIssuesOptionsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => listIssues(owner, repo, options),
+  }),
+  defineTool({
+    name: "update_issue",
+    description: "Update an existing issue in a GitHub repository",
+    toolset: "issues",
+    schema: UpdateIssueOptionsSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, issue_number, ...options }) =>
+      updateIssue(owner, repo, issue_number, options),
+  }),
+  defineTool({
+    name: "add_issue_comment",
+    description: "Add a comment to an existing issue",
+    toolset: "issues",
+    schema: IssueCommentSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, issue_number, body }) => addIssueComment(owner, repo, issue_number, body),
+  }),
+  defineTool({
+    name: "get_issue",
+    description: "Get details of a specific issue in a GitHub repository.",
+    toolset: "issues",
+    schema: GetIssueSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getIssue(args.owner, args.repo, args.issue_number),
+  }),
+];
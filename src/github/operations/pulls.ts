@@ -1,10 +1,31 @@
+import { setTimeout as delay } from "node:timers/promises";
 import { z } from "zod";
-import { githubRequest } from "../common/utils.js";
+import {
+  githubRequest,
+  githubGraphql,
+  githubGraphqlPaginate,
+  GraphqlConnection,
+  githubPaginate,
+  resolveGitHubUrl,
+  PaginatedResult,
+} from "../common/utils.js";
 import {
   GitHubPullRequestSchema,
   GitHubIssueAssigneeSchema,
   GitHubRepositorySchema,
+  PaginationOptions,
+  PaginationOptionsSchema,
 } from "../common/types.js";
+import {
+  GitHubConflictError,
+  GitHubError,
+  GitHubResourceNotFoundError,
+  GitHubValidationError,
+} from "../common/errors.js";
+import { describeHunkRanges, findHunk, parseHunks, splitDiff, splitHunks } from "../common/diff.js";
+import { matchesAnyGlob } from "../common/glob.js";
+import { defineTool, ToolContext } from "../common/registry.js";
+import { getRequiredStatusChecks, RequiredStatusCheck } from "./branches.js";
 
 // Schema definitions
 export const PullRequestFileSchema = z.object({
@@ -37,6 +58,39 @@ export const CombinedStatusSchema = z.object({
   total_count: z.number()
 });
 
+const CheckAppSchema = z.object({
+  id: z.number(),
+  slug: z.string().optional(),
+  name: z.string(),
+});
+
+// Check statuses and conclusions are left open-ended as GitHub adds new ones
+export const CheckRunSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  html_url: z.string().nullable(),
+  details_url: z.string().nullable(),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  output: z.object({
+    title: z.string().nullable(),
+    summary: z.string().nullable(),
+  }),
+  app: CheckAppSchema.nullable(),
+  check_suite: z.object({ id: z.number() }).nullable().optional(),
+});
+
+export const CheckSuiteSchema = z.object({
+  id: z.number(),
+  status: z.string().nullable(),
+  conclusion: z.string().nullable(),
+  app: CheckAppSchema.nullable(),
+  head_branch: z.string().nullable(),
+  latest_check_runs_count: z.number().optional(),
+});
+
 export const PullRequestCommentSchema = z.object({
   url: z.string(),
   id: z.number(),
@@ -71,11 +125,83 @@ export const PullRequestReviewSchema = z.object({
   html_url: z.string(),
   pull_request_url: z.string(),
   commit_id: z.string(),
-  submitted_at: z.string().nullable(),
+  submitted_at: z.string().nullable().optional(),
   author_association: z.string()
 });
 
+export const PullRequestReviewThreadCommentSchema = PullRequestCommentSchema.pick({
+  id: true,
+  node_id: true,
+  body: true,
+  diff_hunk: true,
+  html_url: true,
+  created_at: true,
+  updated_at: true,
+}).extend({
+  author: z.object({ login: z.string() }).nullable(),
+  outdated: z.boolean(),
+});
+
+export const PullRequestReviewThreadSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  line: z.number().nullable(),
+  start_line: z.number().nullable(),
+  original_line: z.number().nullable(),
+  diff_side: z.enum(['LEFT', 'RIGHT']),
+  is_resolved: z.boolean(),
+  is_outdated: z.boolean(),
+  resolved_by: z.object({ login: z.string() }).nullable(),
+  comments: z.object({
+    total_count: z.number(),
+    nodes: z.array(PullRequestReviewThreadCommentSchema),
+  }),
+});
+
+// GraphQL mutation payloads
+const ReplyToReviewThreadPayloadSchema = z.object({
+  addPullRequestReviewThreadReply: z.object({ comment: PullRequestReviewThreadCommentSchema }),
+});
+
+const AddReviewThreadPayloadSchema = z.object({
+  addPullRequestReviewThread: z.object({ thread: PullRequestReviewThreadSchema }),
+});
+
+const ResolveReviewThreadPayloadSchema = z.object({
+  resolveReviewThread: z.object({ thread: PullRequestReviewThreadSchema }),
+});
+
+const UnresolveReviewThreadPayloadSchema = z.object({
+  unresolveReviewThread: z.object({ thread: PullRequestReviewThreadSchema }),
+});
+
 // Input schemas
+export const ReviewCommentInputSchema = z.object({
+  path: z.string().describe("The relative path to the file being commented on"),
+  line: z.number().optional().describe("The line of the file to comment on; for multi-line comments, the last line"),
+  side: z.enum(['LEFT', 'RIGHT']).optional().describe("Side of the diff the line is on: RIGHT for the new version (default), LEFT for deleted lines"),
+  start_line: z.number().optional().describe("For multi-line comments, the first line of the range"),
+  start_side: z.enum(['LEFT', 'RIGHT']).optional().describe("For multi-line comments, the side of start_line (defaults to side)"),
+  position: z.number().optional().describe("Deprecated: the position in the diff; use line and side instead"),
+  body: z.string().describe("Text of the review comment"),
+  suggestion: z.string().optional().describe("Replacement text for the commented line(s), posted as a suggested change that can be applied from GitHub"),
+}).superRefine((comment, ctx) => {
+  if ((comment.line === undefined) === (comment.position === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["line"], message: "Exactly one of line or position is required" });
+  }
+  // Line numbers on different sides are not comparable; the same-hunk check covers those ranges
+  const sameSide = (comment.start_side ?? comment.side ?? 'RIGHT') === (comment.side ?? 'RIGHT');
+  if (comment.start_line !== undefined && comment.line !== undefined && sameSide && comment.start_line >= comment.line) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["start_line"], message: "start_line must be before line" });
+  }
+  if ((comment.start_line !== undefined || comment.start_side !== undefined) && comment.line === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["start_line"], message: "start_line and start_side require line" });
+  }
+  if (comment.suggestion !== undefined && (comment.line === undefined || comment.side === 'LEFT')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["suggestion"], message: "Suggestions require line on the RIGHT side" });
+  }
+});
+
 export const CreatePullRequestSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
@@ -102,7 +228,8 @@ export const ListPullRequestsSchema = z.object({
   sort: z.enum(['created', 'updated', 'popularity', 'long-running']).optional().describe("What to sort results by"),
   direction: z.enum(['asc', 'desc']).optional().describe("The direction of the sort"),
   per_page: z.number().optional().describe("Results per page (max 100)"),
-  page: z.number().optional().describe("Page number of the results")
+  page: z.number().optional().describe("Page number of the results"),
+  ...PaginationOptionsSchema.shape,
 });
 
 export const CreatePullRequestReviewSchema = z.object({
@@ -112,11 +239,48 @@ export const CreatePullRequestReviewSchema = z.object({
   commit_id: z.string().optional().describe("The SHA of the commit that needs a review"),
   body: z.string().describe("The body text of the review"),
   event: z.enum(['APPROVE', 'REQUEST_CHANGES', 'COMMENT']).describe("The review action to perform"),
-  comments: z.array(z.object({
-    path: z.string().describe("The relative path to the file being commented on"),
-    position: z.number().describe("The position in the diff where you want to add a review comment"),
-    body: z.string().describe("Text of the review comment")
-  })).optional().describe("Comments to post as part of the review")
+  comments: z.array(ReviewCommentInputSchema).optional().describe("Comments to post as part of the review")
+});
+
+export const StartPullRequestReviewSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  commit_id: z.string().optional().describe("The SHA of the commit that needs a review"),
+  body: z.string().optional().describe("The body text of the review, which can also be set on submission"),
+  comments: z.array(ReviewCommentInputSchema).optional().describe("Initial comments for the pending review")
+});
+
+export const AddPullRequestReviewCommentsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  review_id: z.number().describe("ID of the pending review"),
+  comments: z.array(ReviewCommentInputSchema).min(1).describe("Comments to add to the pending review; each needs line rather than position")
+});
+
+export const SubmitPullRequestReviewSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  review_id: z.number().describe("ID of the pending review"),
+  event: z.enum(['APPROVE', 'REQUEST_CHANGES', 'COMMENT']).describe("The review action to perform"),
+  body: z.string().optional().describe("The body text of the review")
+});
+
+export const DeletePendingPullRequestReviewSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  review_id: z.number().describe("ID of the pending review to discard")
+});
+
+export const DismissPullRequestReviewSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  review_id: z.number().describe("ID of the submitted review to dismiss"),
+  message: z.string().describe("Reason for dismissing the review")
 });
 
 export const MergePullRequestSchema = z.object({
@@ -131,7 +295,8 @@ export const MergePullRequestSchema = z.object({
 export const GetPullRequestFilesSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"), 
-  pull_number: z.number().describe("Pull request number")
+  pull_number: z.number().describe("Pull request number"),
+  ...PaginationOptionsSchema.shape,
 });
 
 export const GetPullRequestStatusSchema = z.object({
@@ -140,6 +305,23 @@ export const GetPullRequestStatusSchema = z.object({
   pull_number: z.number().describe("Pull request number")
 });
 
+export const WaitForPullRequestChecksSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  timeout_seconds: z.number().int().min(1).max(3600).optional().describe("How long to wait for the checks to settle (default: 600)"),
+  poll_interval_seconds: z.number().int().min(5).max(300).optional().describe("Initial delay between polls, which grows with each poll (default: 10)")
+});
+
+export const GetPullRequestDiffSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  paths: z.array(z.string()).optional().describe("Glob patterns limiting the diff to matching files (e.g. 'src/**/*.ts')"),
+  max_lines: z.number().int().min(50).max(5000).optional().describe("Maximum number of diff lines to return in this chunk (default: 500)"),
+  after: z.string().optional().describe("next_cursor from a previous call, to continue with the next chunk; pass the same paths"),
+});
+
 export const UpdatePullRequestBranchSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
@@ -150,15 +332,198 @@ export const UpdatePullRequestBranchSchema = z.object({
 export const GetPullRequestCommentsSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
-  pull_number: z.number().describe("Pull request number")
+  pull_number: z.number().describe("Pull request number"),
+  ...PaginationOptionsSchema.shape,
 });
 
 export const GetPullRequestReviewsSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
   repo: z.string().describe("Repository name"),
-  pull_number: z.number().describe("Pull request number")
+  pull_number: z.number().describe("Pull request number"),
+  ...PaginationOptionsSchema.shape,
 });
 
+export const ListPullRequestReviewThreadsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  pull_number: z.number().describe("Pull request number"),
+  resolved: z.boolean().optional().describe("Only return resolved (true) or unresolved (false) threads"),
+  after: z.string().optional().describe("Cursor from a previous call's next_cursor to continue from"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const ReplyToPullRequestReviewThreadSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  thread_id: z.string().describe("Node ID of the review thread, as returned by list_pull_request_review_threads"),
+  body: z.string().describe("Text of the reply"),
+});
+
+export const ResolvePullRequestReviewThreadSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  thread_id: z.string().describe("Node ID of the review thread, as returned by list_pull_request_review_threads"),
+});
+
+export type ReviewCommentInput = z.infer<typeof ReviewCommentInputSchema>;
+
+export type CheckState = 'success' | 'failure' | 'pending' | 'neutral';
+
+export type PullRequestCheck = {
+  name: string;
+  source: 'check_run' | 'status';
+  state: CheckState;
+  // Raw check run conclusion or commit status state
+  conclusion: string | null;
+  required: boolean;
+  app: string | null;
+  summary: string | null;
+  details_url: string | null;
+};
+
+export type PullRequestStatus = {
+  sha: string;
+  base_branch: string;
+  // Verdict over required checks, or over every check when none are required
+  state: 'success' | 'failure' | 'pending';
+  total_count: number;
+  counts: Record<CheckState, number>;
+  required_checks: string[];
+  missing_required_checks: string[];
+  failing: PullRequestCheck[];
+  checks: PullRequestCheck[];
+  check_suites: z.infer<typeof CheckSuiteSchema>[];
+};
+
+export type PullRequestDiffHunk = {
+  header: string;
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  // Index of the first returned line within the hunk; non-zero when continuing a split hunk
+  first_line: number;
+  // Whether every line of the hunk is in this chunk
+  complete: boolean;
+  patch: string;
+};
+
+export type PullRequestDiffFile = {
+  path: string;
+  old_path: string;
+  // The file's "diff --git", mode and ---/+++ lines; only in the chunk where the file starts
+  header?: string;
+  hunks: PullRequestDiffHunk[];
+};
+
+export type PullRequestDiffChunk = {
+  head_sha: string;
+  total_files: number;
+  files: PullRequestDiffFile[];
+  next_cursor?: string;
+};
+
+export type PullRequestChecksWaitResult = PullRequestStatus & {
+  timed_out: boolean;
+  waited_seconds: number;
+};
+
+type ReviewThreadsQueryResponse = {
+  repository: {
+    pullRequest: { reviewThreads: GraphqlConnection<unknown> } | null;
+  } | null;
+};
+
+// GraphQL documents; aliases give the results the REST API's field names
+const REVIEW_THREAD_COMMENT_FIELDS = `
+  id: databaseId
+  node_id: id
+  body
+  diff_hunk: diffHunk
+  html_url: url
+  created_at: createdAt
+  updated_at: updatedAt
+  author { login }
+  outdated
+`;
+
+const REVIEW_THREAD_FIELDS = `
+  id
+  path
+  line
+  start_line: startLine
+  original_line: originalLine
+  diff_side: diffSide
+  is_resolved: isResolved
+  is_outdated: isOutdated
+  resolved_by: resolvedBy { login }
+  comments(first: 100) {
+    total_count: totalCount
+    nodes { ${REVIEW_THREAD_COMMENT_FIELDS} }
+  }
+`;
+
+const LIST_REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: $first, after: $after) {
+          nodes { ${REVIEW_THREAD_FIELDS} }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  }
+`;
+
+const REPLY_TO_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!, $body: String!) {
+    addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body }) {
+      comment { ${REVIEW_THREAD_COMMENT_FIELDS} }
+    }
+  }
+`;
+
+const ADD_REVIEW_THREAD_MUTATION = `
+  mutation(
+    $reviewId: ID!,
+    $path: String!,
+    $body: String!,
+    $line: Int!,
+    $side: DiffSide,
+    $startLine: Int,
+    $startSide: DiffSide
+  ) {
+    addPullRequestReviewThread(input: {
+      pullRequestReviewId: $reviewId,
+      path: $path,
+      body: $body,
+      line: $line,
+      side: $side,
+      startLine: $startLine,
+      startSide: $startSide
+    }) {
+      thread { ${REVIEW_THREAD_FIELDS} }
+    }
+  }
+`;
+
+const RESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread { ${REVIEW_THREAD_FIELDS} }
+    }
+  }
+`;
+
+const UNRESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    unresolveReviewThread(input: { threadId: $threadId }) {
+      thread { ${REVIEW_THREAD_FIELDS} }
+    }
+  }
+`;
+
 // Function implementations
 export async function createPullRequest(
   params: z.infer<typeof CreatePullRequestSchema>
@@ -166,7 +531,7 @@ export async function createPullRequest(
   const { owner, repo, ...options } = CreatePullRequestSchema.parse(params);
 
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls`,
+    `/repos/${owner}/${repo}/pulls`,
     {
       method: "POST",
       body: options,
@@ -182,7 +547,7 @@ export async function getPullRequest(
   pullNumber: number
 ): Promise<z.infer<typeof GitHubPullRequestSchema>> {
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}`
+    `/repos/${owner}/${repo}/pulls/${pullNumber}`
   );
   return GitHubPullRequestSchema.parse(response);
 }
@@ -191,8 +556,8 @@ export async function listPullRequests(
   owner: string,
   repo: string,
   options: Omit<z.infer<typeof ListPullRequestsSchema>, 'owner' | 'repo'>
-): Promise<z.infer<typeof GitHubPullRequestSchema>[]> {
-  const url = new URL(`https://api.github.com/repos/${owner}/${repo}/pulls`);
+): Promise<PaginatedResult<z.infer<typeof GitHubPullRequestSchema>>> {
+  const url = new URL(resolveGitHubUrl(`/repos/${owner}/${repo}/pulls`));
   
   if (options.state) url.searchParams.append('state', options.state);
   if (options.head) url.searchParams.append('head', options.head);
@@ -202,8 +567,251 @@ export async function listPullRequests(
   if (options.per_page) url.searchParams.append('per_page', options.per_page.toString());
   if (options.page) url.searchParams.append('page', options.page.toString());
 
-  const response = await githubRequest(url.toString());
-  return z.array(GitHubPullRequestSchema).parse(response);
+  const result = await githubPaginate(url.toString(), options);
+  return { ...result, items: z.array(GitHubPullRequestSchema).parse(result.items) };
+}
+
+const DEFAULT_DIFF_CHUNK_LINES = 500;
+
+type DiffCursor = {
+  sha: string;
+  file: number;
+  hunk: number;
+  line: number;
+};
+
+function encodeDiffCursor(cursor: DiffCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeDiffCursor(value: string): DiffCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if ([cursor.file, cursor.hunk, cursor.line].every(Number.isInteger) && typeof cursor.sha === "string") {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid diff cursor: pass next_cursor from a previous get_pull_request_diff call");
+}
+
+/**
+ * Returns a pull request's unified diff split by file and hunk, in chunks of
+ * about `max_lines` diff lines. Hunks are kept whole when they fit in a
+ * chunk; larger ones are split across chunks. Each chunk's `next_cursor`
+ * continues from where it stopped, as long as the pull request's head has
+ * not moved.
+ */
+export async function getPullRequestDiff(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  options: Omit<z.infer<typeof GetPullRequestDiffSchema>, 'owner' | 'repo' | 'pull_number'> = {}
+): Promise<PullRequestDiffChunk> {
+  const pr = await getPullRequest(owner, repo, pullNumber);
+  const start = options.after !== undefined
+    ? decodeDiffCursor(options.after)
+    : { sha: pr.head.sha, file: 0, hunk: 0, line: 0 };
+  if (start.sha !== pr.head.sha) {
+    throw new GitHubConflictError(
+      `Pull request ${owner}/${repo}#${pullNumber} was updated since the cursor was issued (head ${start.sha} is now ${pr.head.sha}); start again without after`
+    );
+  }
+
+  const diff = await githubRequest(`/repos/${owner}/${repo}/pulls/${pullNumber}`, {
+    headers: { Accept: "application/vnd.github.diff" },
+  });
+  const files = splitDiff(String(diff)).filter((file) =>
+    options.paths === undefined
+      || matchesAnyGlob(file.path, options.paths)
+      || matchesAnyGlob(file.old_path, options.paths)
+  );
+
+  const maxLines = options.max_lines ?? DEFAULT_DIFF_CHUNK_LINES;
+  let budget = maxLines;
+  const chunk: PullRequestDiffChunk = { head_sha: pr.head.sha, total_files: files.length, files: [] };
+
+  for (let fileIndex = start.file; fileIndex < files.length; fileIndex++) {
+    const file = files[fileIndex];
+    const { preamble, hunks } = splitHunks(file.text);
+    const resuming = fileIndex === start.file;
+    const firstHunk = resuming ? start.hunk : 0;
+    const entry: PullRequestDiffFile = { path: file.path, old_path: file.old_path, hunks: [] };
+    if (!resuming && budget <= 0) {
+      chunk.next_cursor = encodeDiffCursor({ sha: pr.head.sha, file: fileIndex, hunk: 0, line: 0 });
+      return chunk;
+    }
+
+    // A file's header is only sent along with its first hunk, so a cursor at
+    // the first hunk's first line always means the file starts over
+    if (firstHunk === 0 && (!resuming || start.line === 0)) {
+      entry.header = preamble.join("\n");
+      budget -= preamble.length;
+    }
+
+    for (let hunkIndex = firstHunk; hunkIndex < hunks.length; hunkIndex++) {
+      const hunk = hunks[hunkIndex];
+      const firstLine = resuming && hunkIndex === start.hunk ? start.line : 0;
+      const remaining = hunk.lines.length - firstLine;
+      // Start a fresh chunk rather than split a hunk that would fit in one,
+      // but always return at least part of a hunk so every chunk makes progress
+      const chunkHasContent = chunk.files.length > 0 || entry.hunks.length > 0;
+      if (chunkHasContent && (budget <= 0 || (remaining > budget && remaining <= maxLines))) {
+        if (entry.hunks.length > 0) {
+          chunk.files.push(entry);
+        }
+        chunk.next_cursor = encodeDiffCursor({ sha: pr.head.sha, file: fileIndex, hunk: hunkIndex, line: firstLine });
+        return chunk;
+      }
+
+      const taken = Math.max(1, Math.min(remaining, budget));
+      const { lines, ...position } = hunk;
+      entry.hunks.push({
+        ...position,
+        first_line: firstLine,
+        complete: firstLine === 0 && taken === remaining,
+        patch: lines.slice(firstLine, firstLine + taken).join("\n"),
+      });
+      budget -= taken;
+
+      if (taken < remaining) {
+        chunk.files.push(entry);
+        chunk.next_cursor = encodeDiffCursor({
+          sha: pr.head.sha,
+          file: fileIndex,
+          hunk: hunkIndex,
+          line: firstLine + taken,
+        });
+        return chunk;
+      }
+    }
+    chunk.files.push(entry);
+  }
+
+  return chunk;
+}
+
+function formatSuggestion(body: string, suggestion: string): string {
+  // The fence must be longer than any backtick run inside the suggestion
+  const longestRun = Math.max(2, ...(suggestion.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const code = suggestion.endsWith("\n") ? suggestion : `${suggestion}\n`;
+  return `${body}\n\n${fence}suggestion\n${code}${fence}`;
+}
+
+/**
+ * Converts review comment inputs into the REST API's comment shape,
+ * rendering suggestions and defaulting sides to RIGHT.
+ */
+export function toReviewCommentPayload(comment: ReviewCommentInput) {
+  const body = comment.suggestion !== undefined
+    ? formatSuggestion(comment.body, comment.suggestion)
+    : comment.body;
+  if (comment.line === undefined) {
+    return { path: comment.path, position: comment.position, body };
+  }
+
+  const side = comment.side ?? 'RIGHT';
+  return {
+    path: comment.path,
+    line: comment.line,
+    side,
+    ...(comment.start_line !== undefined
+      ? { start_line: comment.start_line, start_side: comment.start_side ?? side }
+      : {}),
+    body,
+  };
+}
+
+// GitHub lists at most this many files for a pull request
+const MAX_PULL_REQUEST_FILES = 3000;
+
+/**
+ * Checks line-addressed comments against the pull request's diff so a bad
+ * line is reported with the valid ranges instead of GitHub's generic error.
+ * Files whose patch GitHub omits (binary or very large) are not checked.
+ */
+export async function validateReviewComments(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  comments: ReviewCommentInput[]
+): Promise<void> {
+  const { items: files, truncated } = await getPullRequestFiles(owner, repo, pullNumber, {
+    max_items: MAX_PULL_REQUEST_FILES,
+  });
+  const problems: string[] = [];
+
+  for (const comment of comments) {
+    const file = files.find((candidate) => candidate.filename === comment.path);
+    if (!file) {
+      // A file missing from a truncated list may still be changed; let GitHub decide
+      if (!truncated) {
+        problems.push(`${comment.path} is not changed in this pull request`);
+      }
+      continue;
+    }
+    if (comment.line === undefined || file.patch === undefined) {
+      continue;
+    }
+
+    const hunks = parseHunks(file.patch);
+    const side = comment.side ?? 'RIGHT';
+    const hunk = findHunk(hunks, side, comment.line);
+    if (!hunk) {
+      problems.push(
+        `${comment.path}:${comment.line} (${side}) is outside the diff; commentable ${side} lines: ${describeHunkRanges(hunks, side) || "none"}`
+      );
+      continue;
+    }
+    if (comment.start_line !== undefined) {
+      const startSide = comment.start_side ?? side;
+      if (findHunk(hunks, startSide, comment.start_line) !== hunk) {
+        problems.push(
+          `${comment.path}:${comment.start_line}-${comment.line} must lie within a single diff hunk (${hunk.header})`
+        );
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new GitHubValidationError(
+      `Invalid review comment location(s): ${problems.join("; ")}`,
+      422,
+      { problems }
+    );
+  }
+}
+
+type ReviewOptions = Omit<z.infer<typeof CreatePullRequestReviewSchema>, 'owner' | 'repo' | 'pull_number' | 'event' | 'body'> & {
+  event?: z.infer<typeof CreatePullRequestReviewSchema>['event'];
+  body?: string;
+};
+
+// Without an event GitHub leaves the review PENDING until it is submitted
+async function postPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  options: ReviewOptions
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  const { comments, ...review } = options;
+  if (comments && comments.length > 0) {
+    await validateReviewComments(owner, repo, pullNumber, comments);
+  }
+
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+    {
+      method: 'POST',
+      body: {
+        ...review,
+        ...(comments ? { comments: comments.map(toReviewCommentPayload) } : {}),
+      },
+    }
+  );
+  return PullRequestReviewSchema.parse(response);
 }
 
 export async function createPullRequestReview(
@@ -211,12 +819,146 @@ export async function createPullRequestReview(
   repo: string,
   pullNumber: number,
   options: Omit<z.infer<typeof CreatePullRequestReviewSchema>, 'owner' | 'repo' | 'pull_number'>
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  return postPullRequestReview(owner, repo, pullNumber, options);
+}
+
+export async function startPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  options: Omit<z.infer<typeof StartPullRequestReviewSchema>, 'owner' | 'repo' | 'pull_number'>
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  return postPullRequestReview(owner, repo, pullNumber, options);
+}
+
+export async function getPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}`
+  );
+  return PullRequestReviewSchema.parse(response);
+}
+
+/**
+ * Adds comments to a pending review. The REST API cannot do this after the
+ * review is created, so each comment becomes a GraphQL review thread.
+ */
+export async function addPullRequestReviewComments(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number,
+  comments: ReviewCommentInput[]
+): Promise<z.infer<typeof PullRequestReviewThreadSchema>[]> {
+  const positioned = comments.filter((comment) => comment.line === undefined);
+  if (positioned.length > 0) {
+    throw new GitHubValidationError(
+      `Comments added to a pending review need line instead of position (${positioned.map((comment) => comment.path).join(", ")})`,
+      422,
+      { comments: positioned }
+    );
+  }
+
+  const review = await getPullRequestReview(owner, repo, pullNumber, reviewId);
+  if (review.state !== 'PENDING') {
+    throw new GitHubValidationError(
+      `Review ${reviewId} is ${review.state}; comments can only be added to a PENDING review`,
+      422,
+      { review_id: reviewId, state: review.state }
+    );
+  }
+  await validateReviewComments(owner, repo, pullNumber, comments);
+
+  const threads: z.infer<typeof PullRequestReviewThreadSchema>[] = [];
+  for (const [index, comment] of comments.entries()) {
+    const payload = toReviewCommentPayload(comment);
+    if (!('line' in payload)) {
+      continue;
+    }
+    try {
+      const data = await githubGraphql(ADD_REVIEW_THREAD_MUTATION, {
+        owner,
+        repo,
+        reviewId: review.node_id,
+        path: payload.path,
+        body: payload.body,
+        line: payload.line,
+        side: payload.side,
+        startLine: payload.start_line,
+        startSide: payload.start_side,
+      });
+      threads.push(
+        parseMutationPayload(AddReviewThreadPayloadSchema, data, "addPullRequestReviewThread")
+          .addPullRequestReviewThread.thread
+      );
+    } catch (error) {
+      if (threads.length === 0) {
+        throw error;
+      }
+      // Comments already added stay on the pending review, so say which they are
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new GitHubError(
+        `Added ${threads.length} of ${comments.length} comments to review ${reviewId} (${threads.map((thread) => `${thread.path}:${thread.line}`).join(", ")}), then comment ${index + 1} on ${comment.path} failed: ${reason}. The added comments remain on the pending review; retry only the rest`,
+        error instanceof GitHubError ? error.status : 500,
+        {
+          added_threads: threads.map((thread) => ({ id: thread.id, path: thread.path, line: thread.line })),
+          failed_comment: index,
+          error: error instanceof GitHubError ? error.response : reason,
+        }
+      );
+    }
+  }
+  return threads;
+}
+
+export async function submitPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number,
+  event: z.infer<typeof SubmitPullRequestReviewSchema>['event'],
+  body?: string
 ): Promise<z.infer<typeof PullRequestReviewSchema>> {
   const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}/events`,
     {
       method: 'POST',
-      body: options,
+      body: { event, ...(body !== undefined ? { body } : {}) },
+    }
+  );
+  return PullRequestReviewSchema.parse(response);
+}
+
+export async function deletePendingPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}`,
+    { method: 'DELETE' }
+  );
+  return PullRequestReviewSchema.parse(response);
+}
+
+export async function dismissPullRequestReview(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number,
+  message: string
+): Promise<z.infer<typeof PullRequestReviewSchema>> {
+  const response = await githubRequest(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}/dismissals`,
+    {
+      method: 'PUT',
+      body: { message, event: 'DISMISS' },
     }
   );
   return PullRequestReviewSchema.parse(response);
@@ -229,7 +971,7 @@ export async function mergePullRequest(
   options: Omit<z.infer<typeof MergePullRequestSchema>, 'owner' | 'repo' | 'pull_number'>
 ): Promise<any> {
   return githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/merge`,
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/merge`,
     {
       method: 'PUT',
       body: options,
@@ -240,12 +982,14 @@ export async function mergePullRequest(
 export async function getPullRequestFiles(
   owner: string,
   repo: string,
-  pullNumber: number
-): Promise<z.infer<typeof PullRequestFileSchema>[]> {
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/files`
+  pullNumber: number,
+  pagination: PaginationOptions = {}
+): Promise<PaginatedResult<z.infer<typeof PullRequestFileSchema>>> {
+  const result = await githubPaginate(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/files`,
+    pagination
   );
-  return z.array(PullRequestFileSchema).parse(response);
+  return { ...result, items: z.array(PullRequestFileSchema).parse(result.items) };
 }
 
 export async function updatePullRequestBranch(
@@ -255,7 +999,7 @@ export async function updatePullRequestBranch(
   expectedHeadSha?: string
 ): Promise<void> {
   await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/update-branch`,
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/update-branch`,
     {
       method: "PUT",
       body: expectedHeadSha ? { expected_head_sha: expectedHeadSha } : undefined,
@@ -266,37 +1010,476 @@ export async function updatePullRequestBranch(
 export async function getPullRequestComments(
   owner: string,
   repo: string,
-  pullNumber: number
-): Promise<z.infer<typeof PullRequestCommentSchema>[]> {
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/comments`
+  pullNumber: number,
+  pagination: PaginationOptions = {}
+): Promise<PaginatedResult<z.infer<typeof PullRequestCommentSchema>>> {
+  const result = await githubPaginate(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/comments`,
+    pagination
   );
-  return z.array(PullRequestCommentSchema).parse(response);
+  return { ...result, items: z.array(PullRequestCommentSchema).parse(result.items) };
 }
 
 export async function getPullRequestReviews(
   owner: string,
   repo: string,
-  pullNumber: number
-): Promise<z.infer<typeof PullRequestReviewSchema>[]> {
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`
+  pullNumber: number,
+  pagination: PaginationOptions = {}
+): Promise<PaginatedResult<z.infer<typeof PullRequestReviewSchema>>> {
+  const result = await githubPaginate(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+    pagination
   );
-  return z.array(PullRequestReviewSchema).parse(response);
+  return { ...result, items: z.array(PullRequestReviewSchema).parse(result.items) };
+}
+
+export async function listPullRequestReviewThreads(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  options: Omit<z.infer<typeof ListPullRequestReviewThreadsSchema>, 'owner' | 'repo' | 'pull_number'> = {}
+): Promise<PaginatedResult<z.infer<typeof PullRequestReviewThreadSchema>>> {
+  const result = await githubGraphqlPaginate(
+    LIST_REVIEW_THREADS_QUERY,
+    { owner, repo, number: pullNumber },
+    (data: ReviewThreadsQueryResponse) => {
+      if (!data.repository?.pullRequest) {
+        throw new GitHubResourceNotFoundError(`Pull request ${owner}/${repo}#${pullNumber}`);
+      }
+      return data.repository.pullRequest.reviewThreads;
+    },
+    options
+  );
+
+  const threads = z.array(PullRequestReviewThreadSchema).parse(result.items);
+  return {
+    ...result,
+    items: options.resolved === undefined
+      ? threads
+      : threads.filter((thread) => thread.is_resolved === options.resolved),
+  };
+}
+
+/**
+ * Validates a GraphQL mutation payload. GitHub can answer a mutation with a
+ * null payload and no errors, which is reported as a GitHubError here.
+ */
+function parseMutationPayload<S extends z.ZodTypeAny>(schema: S, data: unknown, mutation: string): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new GitHubError(`GitHub GraphQL API returned an unexpected ${mutation} payload`, 500, data);
+  }
+  return result.data;
+}
+
+export async function replyToPullRequestReviewThread(
+  owner: string,
+  repo: string,
+  threadId: string,
+  body: string
+): Promise<z.infer<typeof PullRequestReviewThreadCommentSchema>> {
+  const data = await githubGraphql(REPLY_TO_REVIEW_THREAD_MUTATION, { owner, repo, threadId, body });
+  return parseMutationPayload(ReplyToReviewThreadPayloadSchema, data, "addPullRequestReviewThreadReply")
+    .addPullRequestReviewThreadReply.comment;
+}
+
+export async function setPullRequestReviewThreadResolved(
+  owner: string,
+  repo: string,
+  threadId: string,
+  resolved: boolean
+): Promise<z.infer<typeof PullRequestReviewThreadSchema>> {
+  if (resolved) {
+    const data = await githubGraphql(RESOLVE_REVIEW_THREAD_MUTATION, { owner, repo, threadId });
+    return parseMutationPayload(ResolveReviewThreadPayloadSchema, data, "resolveReviewThread")
+      .resolveReviewThread.thread;
+  }
+  const data = await githubGraphql(UNRESOLVE_REVIEW_THREAD_MUTATION, { owner, repo, threadId });
+  return parseMutationPayload(UnresolveReviewThreadPayloadSchema, data, "unresolveReviewThread")
+    .unresolveReviewThread.thread;
 }
 
+// Long check summaries are Markdown reports; only their opening is useful here
+const CHECK_SUMMARY_MAX_LENGTH = 1000;
+
+const PASSING_CONCLUSIONS = new Set(['success']);
+const NEUTRAL_CONCLUSIONS = new Set(['neutral', 'skipped']);
+
+function truncateSummary(summary: string): string {
+  return summary.length > CHECK_SUMMARY_MAX_LENGTH
+    ? `${summary.slice(0, CHECK_SUMMARY_MAX_LENGTH)}…`
+    : summary;
+}
+
+function isRequired(
+  required: RequiredStatusCheck[],
+  context: string,
+  appId?: number
+): boolean {
+  return required.some((check) =>
+    check.context === context && (check.app_id === undefined || check.app_id === appId)
+  );
+}
+
+function fromCheckRun(
+  run: z.infer<typeof CheckRunSchema>,
+  required: RequiredStatusCheck[]
+): PullRequestCheck {
+  let state: CheckState;
+  if (run.status !== 'completed') {
+    state = 'pending';
+  } else if (PASSING_CONCLUSIONS.has(run.conclusion ?? '')) {
+    state = 'success';
+  } else if (NEUTRAL_CONCLUSIONS.has(run.conclusion ?? '')) {
+    state = 'neutral';
+  } else {
+    // failure, cancelled, timed_out, action_required and stale all block a merge
+    state = 'failure';
+  }
+
+  const summary = [run.output.title, run.output.summary].filter(Boolean).join('\n\n');
+  return {
+    name: run.name,
+    source: 'check_run',
+    state,
+    conclusion: run.status === 'completed' ? run.conclusion : run.status,
+    required: isRequired(required, run.name, run.app?.id),
+    app: run.app?.slug ?? run.app?.name ?? null,
+    summary: summary ? truncateSummary(summary) : null,
+    details_url: run.details_url ?? run.html_url,
+  };
+}
+
+function fromCommitStatus(
+  status: z.infer<typeof StatusCheckSchema>,
+  required: RequiredStatusCheck[]
+): PullRequestCheck {
+  return {
+    name: status.context,
+    source: 'status',
+    state: status.state === 'error' ? 'failure' : status.state,
+    conclusion: status.state,
+    // Commit statuses do not say which app posted them, so match on context alone
+    required: required.some((check) => check.context === status.context),
+    app: null,
+    summary: status.description,
+    details_url: status.target_url,
+  };
+}
+
+/**
+ * Combines the check runs, check suites and legacy commit statuses on a pull
+ * request's head commit into one view, flagging the checks that branch
+ * protection requires and deciding an overall verdict from them.
+ */
 export async function getPullRequestStatus(
   owner: string,
   repo: string,
   pullNumber: number
-): Promise<z.infer<typeof CombinedStatusSchema>> {
-  // First get the PR to get the head SHA
+): Promise<PullRequestStatus> {
   const pr = await getPullRequest(owner, repo, pullNumber);
   const sha = pr.head.sha;
 
-  // Then get the combined status for that SHA
-  const response = await githubRequest(
-    `https://api.github.com/repos/${owner}/${repo}/commits/${sha}/status`
-  );
-  return CombinedStatusSchema.parse(response);
-}
\ No newline at end of file
+  const [required, statuses, checkRuns, checkSuites] = await Promise.all([
+    getRequiredStatusChecks(owner, repo, pr.base.ref).catch((error) => {
+      // A deleted base branch has no protection to report
+      if (error instanceof GitHubResourceNotFoundError) {
+        return [];
+      }
+      throw error;
+    }),
+    githubPaginate(`/repos/${owner}/${repo}/commits/${sha}/status`, { all_pages: true }, 'statuses'),
+    githubPaginate(`/repos/${owner}/${repo}/commits/${sha}/check-runs`, { all_pages: true }, 'check_runs'),
+    githubPaginate(`/repos/${owner}/${repo}/commits/${sha}/check-suites`, { all_pages: true }, 'check_suites'),
+  ]);
+
+  const checks = [
+    ...z.array(CheckRunSchema).parse(checkRuns.items).map((run) => fromCheckRun(run, required)),
+    ...z.array(StatusCheckSchema).parse(statuses.items).map((status) => fromCommitStatus(status, required)),
+  ];
+
+  const missing = required
+    .filter((check) => !checks.some((reported) => reported.required && reported.name === check.context))
+    .map((check) => check.context);
+
+  const gating = required.length > 0 ? checks.filter((check) => check.required) : checks;
+  let state: PullRequestStatus['state'] = 'success';
+  if (gating.some((check) => check.state === 'failure')) {
+    state = 'failure';
+  } else if (missing.length > 0 || gating.some((check) => check.state === 'pending')) {
+    state = 'pending';
+  }
+
+  const counts: Record<CheckState, number> = { success: 0, failure: 0, pending: 0, neutral: 0 };
+  for (const check of checks) {
+    counts[check.state]++;
+  }
+
+  return {
+    sha,
+    base_branch: pr.base.ref,
+    state,
+    total_count: checks.length,
+    counts,
+    required_checks: required.map((check) => check.context),
+    missing_required_checks: missing,
+    failing: checks.filter((check) => check.state === 'failure'),
+    checks,
+    check_suites: z.array(CheckSuiteSchema).parse(checkSuites.items),
+  };
+}
+
+const DEFAULT_CHECKS_TIMEOUT_SECONDS = 600;
+const DEFAULT_CHECKS_POLL_SECONDS = 10;
+const MAX_CHECKS_POLL_SECONDS = 60;
+const CHECKS_POLL_BACKOFF = 1.5;
+// Checks are created shortly after a push, so a commit with none yet is
+// given this long before it is taken to have no checks at all
+const CHECKS_APPEAR_GRACE_SECONDS = 60;
+
+/**
+ * Polls a pull request's checks with growing intervals until none are
+ * pending or the timeout passes, reporting completed checks as progress.
+ */
+export async function waitForPullRequestChecks(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  options: Omit<z.infer<typeof WaitForPullRequestChecksSchema>, 'owner' | 'repo' | 'pull_number'>,
+  context: ToolContext
+): Promise<PullRequestChecksWaitResult> {
+  const startedAt = Date.now();
+  const deadline = startedAt + (options.timeout_seconds ?? DEFAULT_CHECKS_TIMEOUT_SECONDS) * 1000;
+  let interval = (options.poll_interval_seconds ?? DEFAULT_CHECKS_POLL_SECONDS) * 1000;
+  // MCP requires progress to increase with every notification
+  let reported = -1;
+
+  while (true) {
+    context.signal.throwIfAborted();
+    const status = await getPullRequestStatus(owner, repo, pullNumber);
+    const elapsed = Date.now() - startedAt;
+
+    const total = status.total_count + status.missing_required_checks.length;
+    const completed = status.total_count - status.counts.pending;
+    if (completed > reported) {
+      reported = completed;
+      await context.reportProgress(completed, total);
+    }
+
+    const awaitingChecks = status.total_count === 0 && elapsed < CHECKS_APPEAR_GRACE_SECONDS * 1000;
+    const settled = status.state !== 'pending' && !awaitingChecks;
+    const remaining = deadline - Date.now();
+    if (settled || remaining <= 0) {
+      return { ...status, timed_out: !settled, waited_seconds: Math.round(elapsed / 1000) };
+    }
+
+    await delay(Math.min(interval, remaining), undefined, { signal: context.signal });
+    interval = Math.min(interval * CHECKS_POLL_BACKOFF, MAX_CHECKS_POLL_SECONDS * 1000);
+  }
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "create_pull_request",
+    description: "Create a new pull request in a GitHub repository",
+    toolset: "pulls",
+    schema: CreatePullRequestSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => createPullRequest(args),
+  }),
+  defineTool({
+    name: "get_pull_request",
+    description: "Get details of a specific pull request",
+    toolset: "pulls",
+    schema: GetPullRequestSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getPullRequest(args.owner, args.repo, args.pull_number),
+  }),
+  defineTool({
+    name: "list_pull_requests",
+    description: "List and filter repository pull requests",
+    toolset: "pulls",
+    schema: ListPullRequestsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => listPullRequests(owner, repo, options),
+  }),
+  defineTool({
+    name: "create_pull_request_review",
+    description: "Create a review on a pull request",
+    toolset: "pulls",
+    schema: CreatePullRequestReviewSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }) =>
+      createPullRequestReview(owner, repo, pull_number, options),
+  }),
+  defineTool({
+    name: "merge_pull_request",
+    description: "Merge a pull request",
+    toolset: "pulls",
+    schema: MergePullRequestSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }) =>
+      mergePullRequest(owner, repo, pull_number, options),
+  }),
+  defineTool({
+    name: "get_pull_request_files",
+    description: "Get the list of files changed in a pull request",
+    toolset: "pulls",
+    schema: GetPullRequestFilesSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getPullRequestFiles(args.owner, args.repo, args.pull_number, args),
+  }),
+  defineTool({
+    name: "get_pull_request_diff",
+    description: "Get the unified diff of a pull request split by file and hunk, in chunks that can be walked with a cursor",
+    toolset: "pulls",
+    schema: GetPullRequestDiffSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }) =>
+      getPullRequestDiff(owner, repo, pull_number, options),
+  }),
+  defineTool({
+    name: "get_pull_request_status",
+    description: "Get the combined result of the check runs and commit statuses on a pull request, including which checks are required and why failing ones failed",
+    toolset: "pulls",
+    schema: GetPullRequestStatusSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getPullRequestStatus(args.owner, args.repo, args.pull_number),
+  }),
+  defineTool({
+    name: "wait_for_pull_request_checks",
+    description: "Wait until the checks on a pull request finish or a timeout passes, then return their combined result",
+    toolset: "pulls",
+    schema: WaitForPullRequestChecksSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }, context) =>
+      waitForPullRequestChecks(owner, repo, pull_number, options, context),
+  }),
+  defineTool({
+    name: "update_pull_request_branch",
+    description: "Update a pull request branch with the latest changes from the base branch",
+    toolset: "pulls",
+    schema: UpdatePullRequestBranchSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: async ({ owner, repo, pull_number, expected_head_sha }) => {
+      await updatePullRequestBranch(owner, repo, pull_number, expected_head_sha);
+      return { success: true };
+    },
+  }),
+  defineTool({
+    name: "get_pull_request_comments",
+    description: "Get the review comments on a pull request",
+    toolset: "pulls",
+    schema: GetPullRequestCommentsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getPullRequestComments(args.owner, args.repo, args.pull_number, args),
+  }),
+  defineTool({
+    name: "get_pull_request_reviews",
+    description: "Get the reviews on a pull request",
+    toolset: "pulls",
+    schema: GetPullRequestReviewsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getPullRequestReviews(args.owner, args.repo, args.pull_number, args),
+  }),
+  defineTool({
+    name: "list_pull_request_review_threads",
+    description: "List the review threads on a pull request with their comments and resolved/outdated status",
+    toolset: "pulls",
+    schema: ListPullRequestReviewThreadsSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }) =>
+      listPullRequestReviewThreads(owner, repo, pull_number, options),
+  }),
+  defineTool({
+    name: "reply_to_pull_request_review_thread",
+    description: "Reply to a review thread on a pull request",
+    toolset: "pulls",
+    schema: ReplyToPullRequestReviewThreadSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => replyToPullRequestReviewThread(args.owner, args.repo, args.thread_id, args.body),
+  }),
+  defineTool({
+    name: "resolve_pull_request_review_thread",
+    description: "Mark a review thread on a pull request as resolved",
+    toolset: "pulls",
+    schema: ResolvePullRequestReviewThreadSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => setPullRequestReviewThreadResolved(args.owner, args.repo, args.thread_id, true),
+  }),
+  defineTool({
+    name: "unresolve_pull_request_review_thread",
+    description: "Mark a resolved review thread on a pull request as unresolved",
+    toolset: "pulls",
+    schema: ResolvePullRequestReviewThreadSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => setPullRequestReviewThreadResolved(args.owner, args.repo, args.thread_id, false),
+  }),
+  defineTool({
+    name: "start_pull_request_review",
+    description: "Start a pending review on a pull request that comments can be added to before it is submitted",
+    toolset: "pulls",
+    schema: StartPullRequestReviewSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, pull_number, ...options }) =>
+      startPullRequestReview(owner, repo, pull_number, options),
+  }),
+  defineTool({
+    name: "add_pull_request_review_comments",
+    description: "Add line comments to a pending pull request review",
+    toolset: "pulls",
+    schema: AddPullRequestReviewCommentsSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) =>
+      addPullRequestReviewComments(args.owner, args.repo, args.pull_number, args.review_id, args.comments),
+  }),
+  defineTool({
+    name: "submit_pull_request_review",
+    description: "Submit a pending pull request review as an approval, change request or comment",
+    toolset: "pulls",
+    schema: SubmitPullRequestReviewSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) =>
+      submitPullRequestReview(args.owner, args.repo, args.pull_number, args.review_id, args.event, args.body),
+  }),
+  defineTool({
+    name: "delete_pending_pull_request_review",
+    description: "Discard a pending pull request review and its comments",
+    toolset: "pulls",
+    schema: DeletePendingPullRequestReviewSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) =>
+      deletePendingPullRequestReview(args.owner, args.repo, args.pull_number, args.review_id),
+  }),
+  defineTool({
+    name: "dismiss_pull_request_review",
+    description: "Dismiss a submitted review on a pull request",
+    toolset: "pulls",
+    schema: DismissPullRequestReviewSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) =>
+      dismissPullRequestReview(args.owner, args.repo, args.pull_number, args.review_id, args.message),
+  }),
+];
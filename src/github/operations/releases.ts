@@ -0,0 +1,421 @@
+import { readFile, realpath } from "node:fs/promises";
+import { basename, extname, isAbsolute, relative, resolve, sep } from "node:path";
+import { z } from "zod";
+import {
+  buildUrl,
+  githubPaginate,
+  githubRequest,
+  PaginatedResult,
+} from "../common/utils.js";
+import {
+  GitHubReferenceSchema,
+  GitHubTagSchema,
+  PaginationOptionsSchema,
+} from "../common/types.js";
+import { defineTool } from "../common/registry.js";
+
+// Schema definitions
+export const ReleaseAssetSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  label: z.string().nullable(),
+  content_type: z.string(),
+  state: z.string(),
+  size: z.number(),
+  download_count: z.number(),
+  browser_download_url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ReleaseSchema = z.object({
+  id: z.number(),
+  node_id: z.string(),
+  tag_name: z.string(),
+  target_commitish: z.string(),
+  name: z.string().nullable(),
+  body: z.string().nullable().optional(),
+  draft: z.boolean(),
+  prerelease: z.boolean(),
+  author: z.object({ login: z.string() }),
+  html_url: z.string(),
+  upload_url: z.string(),
+  tarball_url: z.string().nullable(),
+  zipball_url: z.string().nullable(),
+  created_at: z.string(),
+  published_at: z.string().nullable(),
+  assets: z.array(ReleaseAssetSchema),
+});
+
+export const ReleaseNotesSchema = z.object({
+  name: z.string(),
+  body: z.string(),
+});
+
+const ReleaseFieldsSchema = z.object({
+  target_commitish: z.string().optional().describe("Branch or commit SHA the tag is created from if it does not exist yet (defaults to the default branch)"),
+  name: z.string().optional().describe("Release title"),
+  body: z.string().optional().describe("Release description"),
+  draft: z.boolean().optional().describe("Whether the release is an unpublished draft"),
+  prerelease: z.boolean().optional().describe("Whether to mark the release as a prerelease"),
+  make_latest: z.enum(['true', 'false', 'legacy']).optional().describe("Whether this release becomes the repository's latest release"),
+});
+
+export const ListReleasesSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  page: z.number().optional().describe("Page number for pagination"),
+  per_page: z.number().optional().describe("Results per page (max 100)"),
+  ...PaginationOptionsSchema.shape,
+});
+
+export const GetReleaseSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  release_id: z.number().optional().describe("Release ID"),
+  tag: z.string().optional().describe("Tag name of the release, instead of release_id"),
+});
+
+export const CreateReleaseSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  tag_name: z.string().describe("Tag for the release; it is created if it does not exist"),
+  ...ReleaseFieldsSchema.shape,
+  generate_release_notes: z.boolean().optional().describe("Generate the name and body from merged pull requests, added after any given body"),
+});
+
+export const UpdateReleaseSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  release_id: z.number().describe("Release ID"),
+  tag_name: z.string().optional().describe("New tag for the release"),
+  ...ReleaseFieldsSchema.shape,
+});
+
+export const DeleteReleaseSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  release_id: z.number().describe("Release ID"),
+});
+
+export const GenerateReleaseNotesSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  tag_name: z.string().describe("Tag of the release the notes are for; it does not need to exist yet"),
+  previous_tag_name: z.string().optional().describe("Tag to start from (defaults to the previous release)"),
+  target_commitish: z.string().optional().describe("Branch or commit SHA tag_name would be created from, if it does not exist"),
+  configuration_file_path: z.string().optional().describe("Path of a release notes configuration file (defaults to .github/release.yml)"),
+});
+
+export const UploadReleaseAssetSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  release_id: z.number().describe("Release ID"),
+  path: z.string().optional().describe("Local path of the file to upload, inside the directory GITHUB_UPLOAD_ROOT names (relative paths are resolved against it)"),
+  content: z.string().optional().describe("Base64-encoded file content, instead of path"),
+  name: z.string().optional().describe("Asset file name (defaults to the file name of path)"),
+  label: z.string().optional().describe("Display label for the asset"),
+  content_type: z.string().optional().describe("Media type of the asset (guessed from the name when omitted)"),
+});
+
+export const DeleteReleaseAssetSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  asset_id: z.number().describe("Release asset ID"),
+});
+
+export const CreateTagSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  tag: z.string().describe("Tag name (e.g. 'v1.2.0')"),
+  sha: z.string().describe("SHA of the commit to tag"),
+  message: z.string().describe("Tag message"),
+  tagger: z.object({
+    name: z.string(),
+    email: z.string(),
+    date: z.string().optional().describe("ISO 8601 timestamp (defaults to now)"),
+  }).optional().describe("Tagger identity (defaults to the authenticated user)"),
+});
+
+// Type exports
+export type Release = z.infer<typeof ReleaseSchema>;
+export type ReleaseAsset = z.infer<typeof ReleaseAssetSchema>;
+
+// Function implementations
+export async function listReleases(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof ListReleasesSchema>, 'owner' | 'repo'>
+): Promise<PaginatedResult<Release>> {
+  const result = await githubPaginate(
+    buildUrl(`/repos/${owner}/${repo}/releases`, {
+      page: options.page,
+      per_page: options.per_page,
+    }),
+    options
+  );
+  return { ...result, items: z.array(ReleaseSchema).parse(result.items) };
+}
+
+export async function getRelease(
+  owner: string,
+  repo: string,
+  releaseId?: number,
+  tag?: string
+): Promise<Release> {
+  if (releaseId !== undefined && tag !== undefined) {
+    throw new Error("Provide release_id or tag, not both; omit both for the latest release");
+  }
+  let path = `/repos/${owner}/${repo}/releases/latest`;
+  if (releaseId !== undefined) {
+    path = `/repos/${owner}/${repo}/releases/${releaseId}`;
+  } else if (tag !== undefined) {
+    path = `/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`;
+  }
+  return ReleaseSchema.parse(await githubRequest(path));
+}
+
+export async function createRelease(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof CreateReleaseSchema>, 'owner' | 'repo'>
+): Promise<Release> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/releases`, {
+    method: "POST",
+    body: options,
+  });
+  return ReleaseSchema.parse(response);
+}
+
+export async function updateRelease(
+  owner: string,
+  repo: string,
+  releaseId: number,
+  options: Omit<z.infer<typeof UpdateReleaseSchema>, 'owner' | 'repo' | 'release_id'>
+): Promise<Release> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/releases/${releaseId}`, {
+    method: "PATCH",
+    body: options,
+  });
+  return ReleaseSchema.parse(response);
+}
+
+/**
+ * Deletes a release and its assets. The release's tag is left in place.
+ */
+export async function deleteRelease(owner: string, repo: string, releaseId: number) {
+  await githubRequest(`/repos/${owner}/${repo}/releases/${releaseId}`, { method: "DELETE" });
+  return { release_id: releaseId, deleted: true };
+}
+
+export async function generateReleaseNotes(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof GenerateReleaseNotesSchema>, 'owner' | 'repo'>
+): Promise<z.infer<typeof ReleaseNotesSchema>> {
+  const response = await githubRequest(`/repos/${owner}/${repo}/releases/generate-notes`, {
+    method: "POST",
+    body: options,
+    // Generating notes changes nothing, so it is safe to retry
+    idempotent: true,
+  });
+  return ReleaseNotesSchema.parse(response);
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".gz": "application/gzip",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".pdf": "application/pdf",
+  ".sha256": "text/plain",
+  ".sig": "application/pgp-signature",
+  ".tar": "application/x-tar",
+  ".tgz": "application/gzip",
+  ".txt": "text/plain",
+  ".zip": "application/zip",
+};
+
+/**
+ * Reads a local file for upload. Uploads from paths are disabled unless
+ * GITHUB_UPLOAD_ROOT names a directory, and the path, with symlinks
+ * resolved, must lie inside it, so a tool call cannot publish files such
+ * as SSH or App private keys from elsewhere on the machine.
+ */
+async function readUploadFile(path: string): Promise<Buffer> {
+  const configuredRoot = process.env.GITHUB_UPLOAD_ROOT;
+  if (!configuredRoot) {
+    throw new Error(
+      "Uploading from a local path is disabled; set GITHUB_UPLOAD_ROOT to the directory to allow uploads from, or pass content instead"
+    );
+  }
+  const root = await realpath(configuredRoot);
+  const file = await realpath(resolve(root, path));
+  const inside = relative(root, file);
+  if (inside === "" || inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new Error(`${path} is outside GITHUB_UPLOAD_ROOT (${root})`);
+  }
+  return readFile(file);
+}
+
+/**
+ * Uploads a release asset from a local file or base64 content to the
+ * release's upload URL, which lives on a separate uploads host.
+ */
+export async function uploadReleaseAsset(
+  owner: string,
+  repo: string,
+  releaseId: number,
+  options: Omit<z.infer<typeof UploadReleaseAssetSchema>, 'owner' | 'repo' | 'release_id'>
+): Promise<ReleaseAsset> {
+  if ((options.path === undefined) === (options.content === undefined)) {
+    throw new Error("Provide exactly one of path or content");
+  }
+  const name = options.name ?? (options.path !== undefined ? basename(options.path) : undefined);
+  if (!name) {
+    throw new Error("name is required when uploading content");
+  }
+  const content = options.path !== undefined
+    ? await readUploadFile(options.path)
+    : Buffer.from(options.content!, "base64");
+  const release = await getRelease(owner, repo, releaseId);
+
+  // upload_url is a URI template such as ".../assets{?name,label}"
+  const uploadUrl = buildUrl(release.upload_url.replace(/\{[^}]*\}$/, ""), {
+    name,
+    label: options.label,
+  });
+  const response = await githubRequest(uploadUrl, {
+    method: "POST",
+    body: content,
+    headers: {
+      "Content-Type": options.content_type
+        ?? CONTENT_TYPES[extname(name).toLowerCase()]
+        ?? "application/octet-stream",
+    },
+  });
+  return ReleaseAssetSchema.parse(response);
+}
+
+export async function deleteReleaseAsset(owner: string, repo: string, assetId: number) {
+  await githubRequest(`/repos/${owner}/${repo}/releases/assets/${assetId}`, { method: "DELETE" });
+  return { asset_id: assetId, deleted: true };
+}
+
+/**
+ * Creates an annotated tag: a tag object holding the message and tagger,
+ * then the `refs/tags/` reference that points at it.
+ */
+export async function createTag(
+  owner: string,
+  repo: string,
+  options: Omit<z.infer<typeof CreateTagSchema>, 'owner' | 'repo'>
+) {
+  const tag = GitHubTagSchema.parse(
+    await githubRequest(`/repos/${owner}/${repo}/git/tags`, {
+      method: "POST",
+      body: {
+        tag: options.tag,
+        message: options.message,
+        object: options.sha,
+        type: "commit",
+        ...(options.tagger ? { tagger: options.tagger } : {}),
+      },
+    })
+  );
+
+  const ref = GitHubReferenceSchema.parse(
+    await githubRequest(`/repos/${owner}/${repo}/git/refs`, {
+      method: "POST",
+      body: {
+        ref: `refs/tags/${options.tag}`,
+        sha: tag.sha,
+      },
+    })
+  );
+  return { ...tag, ref: ref.ref };
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "list_releases",
+    description: "List the releases of a GitHub repository, newest first",
+    toolset: "releases",
+    schema: ListReleasesSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => listReleases(owner, repo, options),
+  }),
+  defineTool({
+    name: "get_release",
+    description: "Get a release by ID or tag, or the latest release",
+    toolset: "releases",
+    schema: GetReleaseSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getRelease(args.owner, args.repo, args.release_id, args.tag),
+  }),
+  defineTool({
+    name: "create_release",
+    description: "Create a release, creating its tag if it does not exist",
+    toolset: "releases",
+    schema: CreateReleaseSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => createRelease(owner, repo, options),
+  }),
+  defineTool({
+    name: "update_release",
+    description: "Update a release's tag, title, description or draft and prerelease flags",
+    toolset: "releases",
+    schema: UpdateReleaseSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, release_id, ...options }) => updateRelease(owner, repo, release_id, options),
+  }),
+  defineTool({
+    name: "delete_release",
+    description: "Delete a release and its assets, keeping its tag",
+    toolset: "releases",
+    schema: DeleteReleaseSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => deleteRelease(args.owner, args.repo, args.release_id),
+  }),
+  defineTool({
+    name: "generate_release_notes",
+    description: "Generate release notes from the pull requests merged between two tags without creating a release",
+    toolset: "releases",
+    schema: GenerateReleaseNotesSchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => generateReleaseNotes(owner, repo, options),
+  }),
+  defineTool({
+    name: "upload_release_asset",
+    description: "Upload a file to a release from a local path or base64 content",
+    toolset: "releases",
+    schema: UploadReleaseAssetSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, release_id, ...options }) => uploadReleaseAsset(owner, repo, release_id, options),
+  }),
+  defineTool({
+    name: "delete_release_asset",
+    description: "Delete a file from a release",
+    toolset: "releases",
+    schema: DeleteReleaseAssetSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => deleteReleaseAsset(args.owner, args.repo, args.asset_id),
+  }),
+  defineTool({
+    name: "create_tag",
+    description: "Create an annotated tag on a commit",
+    toolset: "releases",
+    schema: CreateTagSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: ({ owner, repo, ...options }) => createTag(owner, repo, options),
+  }),
+];
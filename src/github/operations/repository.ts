@@ -1,6 +1,11 @@
 import { z } from "zod";
-import { githubRequest } from "../common/utils.js";
-import { GitHubRepositorySchema, GitHubSearchResponseSchema } from "../common/types.js";
+import { githubRequest, getSearchAuthTarget, resolveGitHubUrl } from "../common/utils.js";
+import {
+  GitHubRepositorySchema,
+  GitHubRepositoryDetailsSchema,
+  GitHubSearchResponseSchema,
+} from "../common/types.js";
+import { defineTool } from "../common/registry.js";
 
 // Schema definitions
 export const CreateRepositoryOptionsSchema = z.object({
@@ -22,29 +27,46 @@ export const ForkRepositorySchema = z.object({
   organization: z.string().optional().describe("Optional: organization to fork to (defaults to your personal account)"),
 });
 
+export const GetRepositorySchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+});
+
 // Type exports
 export type CreateRepositoryOptions = z.infer<typeof CreateRepositoryOptionsSchema>;
 
 // Function implementations
 export async function createRepository(options: CreateRepositoryOptions) {
-  const response = await githubRequest("https://api.github.com/user/repos", {
+  const response = await githubRequest("/user/repos", {
     method: "POST",
     body: options,
   });
   return GitHubRepositorySchema.parse(response);
 }
 
+export async function getRepository(owner: string, repo: string) {
+  const response = await githubRequest(`/repos/${owner}/${repo}`);
+  return GitHubRepositoryDetailsSchema.parse(response);
+}
+
+export async function getDefaultBranch(owner: string, repo: string): Promise<string> {
+  const repository = await getRepository(owner, repo);
+  return repository.default_branch;
+}
+
 export async function searchRepositories(
   query: string,
   page: number = 1,
   perPage: number = 30
 ) {
-  const url = new URL("https://api.github.com/search/repositories");
+  const url = new URL(resolveGitHubUrl("/search/repositories"));
   url.searchParams.append("q", query);
   url.searchParams.append("page", page.toString());
   url.searchParams.append("per_page", perPage.toString());
 
-  const response = await githubRequest(url.toString());
+  const response = await githubRequest(url.toString(), {
+    authTarget: getSearchAuthTarget(query),
+  });
   return GitHubSearchResponseSchema.parse(response);
 }
 
@@ -54,8 +76,8 @@ export async function forkRepository(
   organization?: string
 ) {
   const url = organization
-    ? `https://api.github.com/repos/${owner}/${repo}/forks?organization=${organization}`
-    : `https://api.github.com/repos/${owner}/${repo}/forks`;
+    ? `/repos/${owner}/${repo}/forks?organization=${organization}`
+    : `/repos/${owner}/${repo}/forks`;
 
   const response = await githubRequest(url, { method: "POST" });
   return GitHubRepositorySchema.extend({
@@ -63,3 +85,43 @@ export async function forkRepository(
     source: GitHubRepositorySchema,
   }).parse(response);
 }
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "get_repository",
+    description: "Get repository metadata such as the default branch, visibility, permissions, topics and merge settings",
+    toolset: "repos",
+    schema: GetRepositorySchema,
+    mutates: false,
+    scopes: ["repo"],
+    handler: (args) => getRepository(args.owner, args.repo),
+  }),
+  defineTool({
+    name: "search_repositories",
+    description: "Search for GitHub repositories",
+    toolset: "search",
+    schema: SearchRepositoriesSchema,
+    mutates: false,
+    scopes: [],
+    handler: (args) => searchRepositories(args.query, args.page, args.perPage),
+  }),
+  defineTool({
+    name: "create_repository",
+    description: "Create a new GitHub repository in your account",
+    toolset: "repos",
+    schema: CreateRepositoryOptionsSchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => createRepository(args),
+  }),
+  defineTool({
+    name: "fork_repository",
+    description: "Fork a GitHub repository to your account or specified organization",
+    toolset: "repos",
+    schema: ForkRepositorySchema,
+    mutates: true,
+    scopes: ["repo"],
+    handler: (args) => forkRepository(args.owner, args.repo, args.organization),
+  }),
+];
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { githubRequest, buildUrl } from "../common/utils.js";
+import { githubRequest, buildUrl, getSearchAuthTarget } from "../common/utils.js";
+import { defineTool } from "../common/registry.js";
 
 export const SearchOptions = z.object({
   q: z.string(),
@@ -33,13 +34,50 @@ export const SearchUsersSchema = SearchUsersOptions;
 export const SearchIssuesSchema = SearchIssuesOptions;
 
 export async function searchCode(params: z.infer<typeof SearchCodeSchema>) {
-  return githubRequest(buildUrl("https://api.github.com/search/code", params));
+  return githubRequest(buildUrl("/search/code", params), {
+    authTarget: getSearchAuthTarget(params.q),
+  });
 }
 
 export async function searchIssues(params: z.infer<typeof SearchIssuesSchema>) {
-  return githubRequest(buildUrl("https://api.github.com/search/issues", params));
+  return githubRequest(buildUrl("/search/issues", params), {
+    authTarget: getSearchAuthTarget(params.q),
+  });
 }
 
 export async function searchUsers(params: z.infer<typeof SearchUsersSchema>) {
-  return githubRequest(buildUrl("https://api.github.com/search/users", params));
-}
\ No newline at end of file
+  return githubRequest(buildUrl("/search/users", params), {
+    authTarget: getSearchAuthTarget(params.q),
+  });
+}
+
+// Tool definitions
+export const tools = [
+  defineTool({
+    name: "search_code",
+    description: "Search for code across GitHub repositories",
+    toolset: "search",
+    schema: SearchCodeSchema,
+    mutates: false,
+    scopes: [],
+    handler: (args) => searchCode(args),
+  }),
+  defineTool({
+    name: "search_issues",
+    description: "Search for issues and pull requests across GitHub repositories",
+    toolset: "search",
+    schema: SearchIssuesSchema,
+    mutates: false,
+    scopes: [],
+    handler: (args) => searchIssues(args),
+  }),
+  defineTool({
+    name: "search_users",
+    description: "Search for users on GitHub",
+    toolset: "search",
+    schema: SearchUsersSchema,
+    mutates: false,
+    scopes: [],
+    handler: (args) => searchUsers(args),
+  }),
+];